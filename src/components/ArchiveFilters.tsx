@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { ArchiveFacets, ArchiveQuery } from '@/lib/archive';
+import { Verdict } from '@/lib/analysisEngine';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, SlidersHorizontal } from 'lucide-react';
+
+interface ArchiveFiltersProps {
+  query: ArchiveQuery;
+  facets: ArchiveFacets;
+  onChange: (query: ArchiveQuery) => void;
+}
+
+// Radix Select does not allow an empty item value
+const ANY = '__any';
+
+const VERDICT_OPTIONS: { value: Verdict; label: string }[] = [
+  { value: 'fake', label: 'Disputed' },
+  { value: 'uncertain', label: 'Uncertain' },
+  { value: 'verified', label: 'Verified' },
+];
+
+export function ArchiveFilters({ query, facets, onChange }: ArchiveFiltersProps) {
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Debounce typing so each keystroke doesn't rescan the archive
+  useEffect(() => {
+    if (search === (query.search ?? '')) return;
+    const timer = setTimeout(() => onChange({ ...query, search: search || undefined }), 250);
+    return () => clearTimeout(timer);
+  }, [search, query, onChange]);
+
+  const update = (changes: Partial<ArchiveQuery>) => onChange({ ...query, ...changes });
+
+  const activeFilters = [
+    query.verdicts?.length,
+    query.minConfidence !== undefined || query.maxConfidence !== undefined,
+    query.from,
+    query.to,
+    query.domain,
+    query.emotion,
+    query.tag,
+  ].filter(Boolean).length;
+
+  const facetSelect = (label: string, key: 'domain' | 'emotion' | 'tag', options: string[]) => (
+    <div className="space-y-1">
+      <Label className="text-xs font-headline uppercase tracking-wider">{label}</Label>
+      <Select
+        value={query[key] ?? ANY}
+        onValueChange={(value) => update({ [key]: value === ANY ? undefined : value })}
+      >
+        <SelectTrigger className="h-8 rounded-none text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY} className="text-xs">Any</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option} value={option} className="text-xs capitalize">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="flex gap-2 p-3 border-b border-border">
+      <div className="relative flex-1">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search the archives..."
+          className="h-8 pl-7 rounded-none text-xs font-body"
+        />
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 rounded-none px-2 relative" aria-label="Filters">
+            <SlidersHorizontal className="h-4 w-4" />
+            {activeFilters > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 h-4 min-w-4 px-1 rounded-full bg-foreground text-background text-[10px] font-mono leading-4">
+                {activeFilters}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 rounded-none border-2 border-foreground space-y-4">
+          <div className="space-y-1">
+            <Label className="text-xs font-headline uppercase tracking-wider">Verdict</Label>
+            <ToggleGroup
+              type="multiple"
+              value={query.verdicts ?? []}
+              onValueChange={(values) => update({ verdicts: values.length ? values as Verdict[] : undefined })}
+              className="justify-start"
+            >
+              {VERDICT_OPTIONS.map(option => (
+                <ToggleGroupItem key={option.value} value={option.value} size="sm" className="rounded-none text-xs">
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label className="text-xs font-headline uppercase tracking-wider">Confidence</Label>
+              <span className="text-xs font-mono text-muted-foreground">
+                {query.minConfidence ?? 0}–{query.maxConfidence ?? 100}%
+              </span>
+            </div>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[query.minConfidence ?? 0, query.maxConfidence ?? 100]}
+              onValueChange={([min, max]) => update({
+                minConfidence: min > 0 ? min : undefined,
+                maxConfidence: max < 100 ? max : undefined,
+              })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs font-headline uppercase tracking-wider">From</Label>
+              <Input
+                type="date"
+                value={query.from ?? ''}
+                onChange={(e) => update({ from: e.target.value || undefined })}
+                className="h-8 rounded-none text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-headline uppercase tracking-wider">To</Label>
+              <Input
+                type="date"
+                value={query.to ?? ''}
+                onChange={(e) => update({ to: e.target.value || undefined })}
+                className="h-8 rounded-none text-xs"
+              />
+            </div>
+          </div>
+
+          {facetSelect('Domain', 'domain', facets.domains)}
+          {facetSelect('Dominant emotion', 'emotion', facets.emotions)}
+          {facetSelect('Tag', 'tag', facets.tags)}
+
+          {activeFilters > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full rounded-none text-xs"
+              onClick={() => onChange({ search: query.search })}
+            >
+              Clear filters
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
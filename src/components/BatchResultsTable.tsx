@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { BatchResult, subScore } from '@/lib/batch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { VerdictDisplay } from '@/components/VerdictDisplay';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BatchResultsTableProps {
+  results: BatchResult[];
+}
+
+type SortKey = 'id' | 'verdict' | 'confidence' | 'score' | 'heuristic' | 'emotional' | 'source' | 'factCheck';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'verdict', label: 'Verdict' },
+  { key: 'confidence', label: 'Conf.', numeric: true },
+  { key: 'score', label: 'Score', numeric: true },
+  { key: 'heuristic', label: 'Heur.', numeric: true },
+  { key: 'emotional', label: 'Emot.', numeric: true },
+  { key: 'source', label: 'Source', numeric: true },
+  { key: 'factCheck', label: 'Fact', numeric: true },
+];
+
+const verdictBadge: Record<AnalysisResult['verdict'], { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-success/10 text-success border-success/30' },
+  fake: { label: 'Disputed', className: 'bg-destructive/10 text-destructive border-destructive/30' },
+  uncertain: { label: 'Uncertain', className: 'bg-warning/10 text-warning border-warning/30' },
+};
+
+// Orders verdicts from most to least concerning when sorting
+const VERDICT_ORDER = { fake: 0, uncertain: 1, verified: 2 };
+
+function sortValue(entry: BatchResult, key: SortKey): number | string | undefined {
+  const { row, result } = entry;
+  switch (key) {
+    case 'id':
+      return row.id;
+    case 'verdict':
+      return result ? VERDICT_ORDER[result.verdict] : undefined;
+    case 'confidence':
+      return result?.confidence;
+    case 'score':
+      return result?.score;
+    default:
+      return subScore(result, key);
+  }
+}
+
+export function BatchResultsTable({ results }: BatchResultsTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' } | null>(null);
+  const [selected, setSelected] = useState<AnalysisResult | null>(null);
+
+  const sorted = useMemo(() => {
+    if (!sort) return results;
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...results].sort((a, b) => {
+      const va = sortValue(a, sort.key);
+      const vb = sortValue(b, sort.key);
+      // Missing values always sink to the bottom
+      if (va === undefined) return vb === undefined ? 0 : 1;
+      if (vb === undefined) return -1;
+      if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * factor;
+      return String(va).localeCompare(String(vb), undefined, { numeric: true }) * factor;
+    });
+  }, [results, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current =>
+      current?.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: COLUMNS.find(c => c.key === key)?.numeric ? 'desc' : 'asc' }
+    );
+  };
+
+  return (
+    <>
+      <ScrollArea className="h-[480px] border-2 border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map(column => (
+                <TableHead key={column.key} className={cn(column.numeric && 'text-right')}>
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className="inline-flex items-center gap-1 font-headline uppercase tracking-wider text-xs hover:text-foreground"
+                  >
+                    {column.label}
+                    {sort?.key !== column.key && <ArrowUpDown className="h-3 w-3 opacity-40" />}
+                    {sort?.key === column.key && sort.direction === 'asc' && <ArrowUp className="h-3 w-3" />}
+                    {sort?.key === column.key && sort.direction === 'desc' && <ArrowDown className="h-3 w-3" />}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead className="font-headline uppercase tracking-wider text-xs">Text</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map(entry => {
+              const { row, result, error } = entry;
+              return (
+                <TableRow
+                  key={row.id}
+                  onClick={() => result && setSelected(result)}
+                  className={cn(result && 'cursor-pointer')}
+                >
+                  <TableCell className="font-mono text-xs">{row.id}</TableCell>
+                  <TableCell>
+                    {result ? (
+                      <Badge
+                        variant="outline"
+                        className={cn("text-[10px] font-headline uppercase tracking-wider rounded-none border", verdictBadge[result.verdict].className)}
+                      >
+                        {verdictBadge[result.verdict].label}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-destructive" title={error}>Error</span>
+                    )}
+                  </TableCell>
+                  {COLUMNS.filter(c => c.numeric).map(column => (
+                    <TableCell key={column.key} className="text-right font-mono text-xs">
+                      {sortValue(entry, column.key) ?? '—'}
+                    </TableCell>
+                  ))}
+                  <TableCell className="max-w-xs">
+                    <p className="text-xs font-body line-clamp-2">{row.text}</p>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0 rounded-none border-0">
+          {selected && <VerdictDisplay result={selected} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+import { useRef } from 'react';
+import { CorpusImportResult, CorpusStats } from '@/services/claimCorpus';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Library, Upload, Trash2, Loader2 } from 'lucide-react';
+
+interface ClaimCorpusPanelProps {
+  stats: CorpusStats;
+  isImporting: boolean;
+  error: string | null;
+  onImport: (file: File) => Promise<CorpusImportResult | null>;
+  onClear: () => void;
+}
+
+export function ClaimCorpusPanel({ stats, isImporting, error, onImport, onClear }: ClaimCorpusPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    const result = await onImport(file);
+    if (result) {
+      toast({
+        title: 'Fact-checks imported',
+        description: `${result.imported} claims from ${file.name}; ${result.total} in the corpus.`,
+      });
+    }
+  };
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      <div className="bg-foreground text-background px-4 py-3 flex items-center justify-between">
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm flex items-center gap-2">
+          <Library className="h-4 w-4" />
+          Fact-Check Library
+        </h3>
+        {stats.count > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClear}
+            className="text-background/70 hover:text-background hover:bg-background/10 h-7 px-2"
+            title="Remove all imported fact-checks"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3">
+        <p className="text-xs text-muted-foreground font-body leading-relaxed">
+          Import ClaimReview datasets (JSON-LD or JSON Lines) to match stories against
+          known fact-checks offline.
+        </p>
+
+        {stats.count > 0 ? (
+          <div className="space-y-1">
+            <div className="font-mono text-sm">{stats.count} claims</div>
+            {stats.sources.map(source => (
+              <div key={source.name} className="flex justify-between text-xs text-muted-foreground font-mono">
+                <span className="truncate">{source.name}</span>
+                <span>{source.count}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs italic text-muted-foreground font-body">No datasets imported</p>
+        )}
+
+        {error && <p className="text-xs text-destructive font-body">{error}</p>}
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.jsonld,.jsonl,.ndjson,application/json,application/ld+json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full rounded-none"
+          onClick={() => fileInput.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import Dataset
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { CompareSide } from '@/hooks/useComparison';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Archive } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface CompareSideInputProps {
+  title: string;
+  value: CompareSide;
+  recent: AnalysisResult[];
+  disabled?: boolean;
+  onChange: (side: CompareSide) => void;
+}
+
+export function CompareSideInput({ title, value, recent, disabled, onChange }: CompareSideInputProps) {
+  const selectedId = value.kind === 'archive' ? value.result.id : undefined;
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      <div className="bg-foreground text-background px-4 py-2">
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm">{title}</h3>
+      </div>
+      <div className="p-4">
+        <Tabs
+          value={value.kind}
+          onValueChange={(kind) => onChange(kind === 'text' ? { kind: 'text', text: '' } : { kind: 'archive', result: recent[0] })}
+        >
+          <TabsList className="rounded-none border-2 border-border bg-secondary/50">
+            <TabsTrigger value="text" className="rounded-none font-headline uppercase tracking-wider text-xs" disabled={disabled}>
+              <FileText className="mr-2 h-3 w-3" />
+              Text
+            </TabsTrigger>
+            <TabsTrigger value="archive" className="rounded-none font-headline uppercase tracking-wider text-xs" disabled={disabled || recent.length === 0}>
+              <Archive className="mr-2 h-3 w-3" />
+              From Archive
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="text">
+            <Textarea
+              placeholder="Paste one version of the story..."
+              value={value.kind === 'text' ? value.text : ''}
+              onChange={(e) => onChange({ kind: 'text', text: e.target.value })}
+              className="min-h-[160px] resize-none font-body bg-background/50 border-2 border-border focus:border-foreground rounded-none"
+              disabled={disabled}
+            />
+          </TabsContent>
+
+          <TabsContent value="archive" className="space-y-2">
+            <Select
+              value={selectedId}
+              onValueChange={(id) => {
+                const result = recent.find(r => r.id === id);
+                if (result) onChange({ kind: 'archive', result });
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger className="rounded-none border-2">
+                <SelectValue placeholder="Choose an archived story" />
+              </SelectTrigger>
+              <SelectContent>
+                {recent.map(result => (
+                  <SelectItem key={result.id} value={result.id}>
+                    <span className="font-mono text-xs mr-2">{format(result.timestamp, 'MMM d, HH:mm')}</span>
+                    {(result.article?.title ?? result.text).slice(0, 60)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {value.kind === 'archive' && value.result && (
+              <p className="text-sm font-body text-muted-foreground line-clamp-6">{value.result.text}</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { ResultComparison, SetDelta } from '@/lib/compare';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, XCircle, AlertCircle, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ComparisonReportProps {
+  left: AnalysisResult;
+  right: AnalysisResult;
+  comparison: ResultComparison;
+}
+
+const verdictConfig = {
+  verified: { icon: CheckCircle2, label: 'Verified', className: 'text-success border-success bg-success/10' },
+  fake: { icon: XCircle, label: 'Disputed', className: 'text-destructive border-destructive bg-destructive/10' },
+  uncertain: { icon: AlertCircle, label: 'Uncertain', className: 'text-warning border-warning bg-warning/10' },
+};
+
+function VerdictSummary({ title, result }: { title: string; result: AnalysisResult }) {
+  const config = verdictConfig[result.verdict];
+  const Icon = config.icon;
+  return (
+    <div className={cn('border-2 p-4 text-center', config.className)}>
+      <div className="text-xs font-headline uppercase tracking-wider text-muted-foreground mb-2">{title}</div>
+      <Icon className="h-8 w-8 mx-auto mb-1" />
+      <div className="font-headline text-xl font-bold uppercase">{config.label}</div>
+      <div className="text-xs font-mono text-muted-foreground">
+        {result.confidence}% confidence{result.score !== undefined && ` · score ${result.score}`}
+      </div>
+    </div>
+  );
+}
+
+function DeltaCell({ delta }: { delta?: number }) {
+  if (delta === undefined) return <span className="text-muted-foreground">—</span>;
+  // Scores measure fake indicators, so an increase is a warning sign
+  return (
+    <span className={cn(delta > 0 && 'text-destructive', delta < 0 && 'text-success')}>
+      {delta > 0 ? `+${delta}` : delta}
+    </span>
+  );
+}
+
+function SetDeltaSection({ title, delta, empty }: { title: string; delta: SetDelta; empty: string }) {
+  if (delta.onlyLeft.length === 0 && delta.onlyRight.length === 0) {
+    return (
+      <div>
+        <h4 className="font-headline font-bold uppercase tracking-wider text-sm mb-2">{title}</h4>
+        <p className="text-sm text-muted-foreground italic font-body">{empty}</p>
+      </div>
+    );
+  }
+  return (
+    <div>
+      <h4 className="font-headline font-bold uppercase tracking-wider text-sm mb-2">{title}</h4>
+      <div className="grid sm:grid-cols-2 gap-4">
+        {[
+          { label: 'Only in A', items: delta.onlyLeft },
+          { label: 'Only in B', items: delta.onlyRight },
+        ].map(column => (
+          <div key={column.label}>
+            <div className="text-xs text-muted-foreground font-body mb-1">{column.label}</div>
+            <div className="flex flex-wrap gap-1">
+              {column.items.length === 0 && <span className="text-xs text-muted-foreground">—</span>}
+              {column.items.map(item => (
+                <Badge key={item} variant="outline" className="rounded-none text-xs font-normal">
+                  {item}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ComparisonReport({ left, right, comparison }: ComparisonReportProps) {
+  const flaggedCount = comparison.diff.filter(s => s.flagged).length;
+
+  return (
+    <div className="border-2 border-foreground bg-card animate-fade-in">
+      <div className="bg-foreground text-background px-4 py-3">
+        <h2 className="font-headline font-bold uppercase tracking-wider text-sm">Comparison Report</h2>
+      </div>
+
+      <div className="p-6 space-y-8">
+        <div className="grid grid-cols-[1fr,auto,1fr] items-center gap-4">
+          <VerdictSummary title="Version A" result={left} />
+          <ArrowRight className="h-6 w-6 text-muted-foreground" />
+          <VerdictSummary title="Version B" result={right} />
+        </div>
+
+        <div>
+          <h4 className="font-headline font-bold uppercase tracking-wider text-sm mb-2">Sub-scores</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Analyzer</TableHead>
+                <TableHead className="text-right">A</TableHead>
+                <TableHead className="text-right">B</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.scores.map(row => (
+                <TableRow key={row.id} className={cn(row.id === 'overall' && 'font-bold')}>
+                  <TableCell className="font-body">{row.label}</TableCell>
+                  <TableCell className="text-right font-mono">{row.left ?? '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{row.right ?? '—'}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    <DeltaCell delta={row.delta} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <SetDeltaSection title="Emotional Triggers" delta={comparison.triggers} empty="Both versions use the same triggers" />
+        <SetDeltaSection title="Sources" delta={comparison.sources} empty="Both versions cite the same sources" />
+
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="font-headline font-bold uppercase tracking-wider text-sm">Text Changes</h4>
+            {flaggedCount > 0 && (
+              <span className="text-xs text-accent font-body">
+                {flaggedCount} addition{flaggedCount === 1 ? '' : 's'} with sensational phrasing
+              </span>
+            )}
+          </div>
+          <div className="border-2 border-border bg-background/50 p-4 font-body text-sm leading-relaxed whitespace-pre-wrap max-h-[480px] overflow-y-auto">
+            {comparison.diff.map((segment, index) => {
+              if (segment.type === 'same') return <span key={index}>{segment.text}</span>;
+              if (segment.type === 'removed') {
+                return (
+                  <del key={index} className="bg-destructive/10 text-destructive decoration-destructive">
+                    {segment.text}
+                  </del>
+                );
+              }
+              const added = (
+                <ins
+                  key={index}
+                  className={cn(
+                    'no-underline bg-success/15',
+                    segment.flagged && 'bg-accent/30 font-semibold underline decoration-accent decoration-2'
+                  )}
+                >
+                  {segment.text}
+                </ins>
+              );
+              return segment.flagged ? (
+                <Tooltip key={index}>
+                  <TooltipTrigger asChild>{added}</TooltipTrigger>
+                  <TooltipContent>New sensational or emotional phrasing</TooltipContent>
+                </Tooltip>
+              ) : added;
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { FactCheckCacheSettings, FactCheckCacheStats } from '@/services/factCheckCache';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatabaseZap, Trash2 } from 'lucide-react';
+
+interface FactCheckCachePanelProps {
+  settings: FactCheckCacheSettings;
+  stats: FactCheckCacheStats;
+  error: string | null;
+  onSettingsChange: (settings: FactCheckCacheSettings) => void;
+  onPurge: () => void;
+}
+
+export function FactCheckCachePanel({ settings, stats, error, onSettingsChange, onPurge }: FactCheckCachePanelProps) {
+  // Edited locally and saved on blur, so typing doesn't evict entries
+  const [draft, setDraft] = useState({ ttlMinutes: String(settings.ttlMinutes), maxEntries: String(settings.maxEntries) });
+
+  useEffect(() => {
+    setDraft({ ttlMinutes: String(settings.ttlMinutes), maxEntries: String(settings.maxEntries) });
+  }, [settings]);
+
+  const commit = () => {
+    const ttlMinutes = Number(draft.ttlMinutes);
+    const maxEntries = Number(draft.maxEntries);
+    if (ttlMinutes >= 1 && maxEntries >= 1) {
+      if (ttlMinutes !== settings.ttlMinutes || maxEntries !== settings.maxEntries) {
+        onSettingsChange({ ttlMinutes, maxEntries });
+      }
+    } else {
+      setDraft({ ttlMinutes: String(settings.ttlMinutes), maxEntries: String(settings.maxEntries) });
+    }
+  };
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      <div className="bg-foreground text-background px-4 py-3 flex items-center justify-between">
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm flex items-center gap-2">
+          <DatabaseZap className="h-4 w-4" />
+          Fact-Check Cache
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onPurge}
+          className="text-background/70 hover:text-background hover:bg-background/10 h-7 px-2"
+          title="Purge cached fact-checks"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {[
+            ['Entries', stats.entries],
+            ['Hits', stats.hits],
+            ['Misses', stats.misses],
+          ].map(([label, value]) => (
+            <div key={label} className="border border-border py-2">
+              <div className="font-mono text-sm">{value}</div>
+              <div className="text-[10px] font-headline uppercase tracking-wider text-muted-foreground">{label}</div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground font-body">
+          {lookups > 0 ? `${hitRate}% of provider lookups answered from the cache.` : 'No lookups yet.'}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs font-headline uppercase tracking-wider">TTL (minutes)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={draft.ttlMinutes}
+              onChange={(e) => setDraft({ ...draft, ttlMinutes: e.target.value })}
+              onBlur={commit}
+              className="h-8 rounded-none text-xs font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs font-headline uppercase tracking-wider">Max entries</Label>
+            <Input
+              type="number"
+              min={1}
+              value={draft.maxEntries}
+              onChange={(e) => setDraft({ ...draft, maxEntries: e.target.value })}
+              onBlur={commit}
+              className="h-8 rounded-none text-xs font-mono"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-destructive font-body">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ExternalLink, HelpCircle } from 'lucide-react';
+import { cn, toHttpUrl } from '@/lib/utils';
+
+interface FactCheckClaimCardProps {
+  claim: FactCheckClaim;
+}
+
+export function FactCheckClaimCard({ claim }: FactCheckClaimCardProps) {
+  const claimUrl = toHttpUrl(claim.url);
+
+  return (
+    <div className="p-3 bg-background/50 border border-border rounded space-y-2">
+      <p className="text-sm font-medium">"{claim.text}"</p>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {claim.claimant && (
+          <span className="text-muted-foreground">
+            Claimed by: {claim.claimant}
+          </span>
+        )}
+        {claim.similarity !== undefined && (
+          <span className="text-muted-foreground font-mono">
+            {Math.round(claim.similarity * 100)}% match
+          </span>
+        )}
+        {claim.providers?.map(provider => (
+          <Badge key={provider} variant="secondary" className="text-[10px] font-normal">
+            via {provider}
+          </Badge>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge 
+            variant="outline"
+            className={cn(
+              "text-xs",
+              claim.ratingValue !== undefined && claim.ratingValue <= 30 && "border-success text-success",
+              claim.ratingValue !== undefined && claim.ratingValue > 30 && claim.ratingValue <= 60 && "border-warning text-warning",
+              claim.ratingValue !== undefined && claim.ratingValue > 60 && "border-destructive text-destructive"
+            )}
+          >
+            {claim.rating}
+          </Badge>
+          {claim.ratingValue === undefined && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="flex items-center gap-1 text-[10px] font-headline uppercase tracking-wider text-muted-foreground cursor-help">
+                  <HelpCircle className="h-3 w-3" />
+                  Unmapped rating
+                </span>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-xs">
+                This verdict is not in the rating table, so it does not count toward the fact-check score.
+              </TooltipContent>
+            </Tooltip>
+          )}
+          <span className="text-xs text-muted-foreground">
+            by {claim.publisher}
+          </span>
+        </div>
+        {claimUrl && (
+          <a 
+            href={claimUrl.href} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="text-xs text-primary hover:underline flex items-center gap-1"
+          >
+            View <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { AnalysisEvidence } from '@/lib/analysisEngine';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+interface HighlightedTextProps {
+  text: string;
+  evidence: AnalysisEvidence[];
+  className?: string;
+}
+
+interface HighlightStyle {
+  label: string;
+  className: string;
+}
+
+const HIGHLIGHT_STYLES: Record<string, HighlightStyle> = {
+  fear: { label: 'Fear', className: 'bg-orange-500/20 decoration-orange-500' },
+  anger: { label: 'Anger', className: 'bg-red-500/20 decoration-red-500' },
+  urgency: { label: 'Urgency', className: 'bg-amber-500/20 decoration-amber-500' },
+  sensationalism: { label: 'Sensationalism', className: 'bg-yellow-500/20 decoration-yellow-500' },
+  manipulation: { label: 'Manipulation', className: 'bg-pink-500/20 decoration-pink-500' },
+  clickbait: { label: 'Clickbait', className: 'bg-purple-500/20 decoration-purple-500' },
+  'excessive-punctuation': { label: 'Punctuation', className: 'bg-muted decoration-muted-foreground' },
+  capitalization: { label: 'All caps', className: 'bg-muted decoration-muted-foreground' },
+  attribution: { label: 'Attribution', className: 'bg-green-500/20 decoration-green-500' },
+  domain: { label: 'Domain', className: 'bg-blue-500/20 decoration-blue-500' },
+  claim: { label: 'Fact-checked passage', className: 'decoration-foreground' },
+};
+
+const FALLBACK_STYLE: HighlightStyle = { label: 'Other', className: 'bg-muted decoration-muted-foreground' };
+
+// Broad spans (e.g. fact-checked passages) yield to word-level hits when they overlap
+const lowPriorityTypes = new Set(['claim']);
+
+type Segment = { text: string; hits: AnalysisEvidence[] };
+
+/**
+ * Split the text into plain and highlighted segments; overlapping hits on the
+ * same range are grouped, partially overlapping ones keep the earliest match
+ */
+function buildSegments(text: string, evidence: AnalysisEvidence[]): Segment[] {
+  const located = evidence
+    .filter(e => e.start !== undefined && e.end !== undefined && e.end > e.start && e.end <= text.length)
+    .sort((a, b) =>
+      Number(lowPriorityTypes.has(a.type)) - Number(lowPriorityTypes.has(b.type)) ||
+      a.start - b.start ||
+      (b.end - b.start) - (a.end - a.start)
+    );
+
+  const accepted: { start: number; end: number; hits: AnalysisEvidence[] }[] = [];
+  for (const hit of located) {
+    const same = accepted.find(a => a.start === hit.start && a.end === hit.end);
+    if (same) {
+      same.hits.push(hit);
+    } else if (!accepted.some(a => a.start < hit.end && hit.start < a.end)) {
+      accepted.push({ start: hit.start, end: hit.end, hits: [hit] });
+    }
+  }
+  accepted.sort((a, b) => a.start - b.start);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const range of accepted) {
+    if (range.start > cursor) {
+      segments.push({ text: text.slice(cursor, range.start), hits: [] });
+    }
+    segments.push({ text: text.slice(range.start, range.end), hits: range.hits });
+    cursor = range.end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), hits: [] });
+  }
+  return segments;
+}
+
+export function HighlightedText({ text, evidence, className }: HighlightedTextProps) {
+  const segments = buildSegments(text, evidence);
+  const usedTypes = Array.from(new Set(segments.flatMap(s => s.hits.map(h => h.type))));
+
+  return (
+    <div className="space-y-3">
+      <p className={cn("whitespace-pre-wrap", className)}>
+        {segments.map((segment, index) => {
+          if (segment.hits.length === 0) {
+            return <span key={index}>{segment.text}</span>;
+          }
+          const style = HIGHLIGHT_STYLES[segment.hits[0].type] ?? FALLBACK_STYLE;
+          return (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <mark className={cn("text-inherit rounded-sm px-0.5 underline decoration-2 underline-offset-2 cursor-help", style.className)}>
+                  {segment.text}
+                </mark>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs not-italic">
+                <ul className="space-y-1 text-xs">
+                  {segment.hits.map((hit, hidx) => (
+                    <li key={hidx}>
+                      <span className="font-bold">{(HIGHLIGHT_STYLES[hit.type] ?? FALLBACK_STYLE).label}:</span>{' '}
+                      {hit.description ?? hit.match}
+                    </li>
+                  ))}
+                </ul>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </p>
+
+      {/* Legend */}
+      {usedTypes.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-[10px] font-headline uppercase tracking-wider not-italic">
+          {usedTypes.map(type => {
+            const style = HIGHLIGHT_STYLES[type] ?? FALLBACK_STYLE;
+            return (
+              <span key={type} className={cn("px-1.5 py-0.5 underline decoration-2", style.className)}>
+                {style.label}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
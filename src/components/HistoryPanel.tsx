@@ -1,18 +1,60 @@
 import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { ArchiveFacets, ArchiveQuery, ArchiveUsage, hasFilters } from '@/lib/archive';
+import { ArchiveFilters } from '@/components/ArchiveFilters';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Archive, Trash2, CheckCircle2, XCircle, AlertCircle, Clock } from 'lucide-react';
+import { Archive, Trash2, CheckCircle2, XCircle, AlertCircle, Clock, ChevronLeft, ChevronRight, X, Tag, SearchX } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 
 interface HistoryPanelProps {
   history: AnalysisResult[];
+  total: number;
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  skipped?: number;
+  usage?: ArchiveUsage | null;
+  error?: string | null;
+  query: ArchiveQuery;
+  facets: ArchiveFacets;
+  onQueryChange: (query: ArchiveQuery) => void;
+  onPageChange: (page: number) => void;
   onSelect: (result: AnalysisResult) => void;
+  onRemove: (id: string) => void;
   onClear: () => void;
 }
 
-export function HistoryPanel({ history, onSelect, onClear }: HistoryPanelProps) {
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+export function HistoryPanel({
+  history,
+  total,
+  page,
+  pageCount,
+  pageSize,
+  skipped = 0,
+  usage,
+  error,
+  query,
+  facets,
+  onQueryChange,
+  onPageChange,
+  onSelect,
+  onRemove,
+  onClear,
+}: HistoryPanelProps) {
   const getVerdictIcon = (verdict: AnalysisResult['verdict']) => {
     switch (verdict) {
       case 'verified':
@@ -41,7 +83,7 @@ export function HistoryPanel({ history, onSelect, onClear }: HistoryPanelProps)
           <Archive className="h-4 w-4" />
           Past Editions
         </h3>
-        {history.length > 0 && (
+        {total > 0 && (
           <Button 
             variant="ghost" 
             size="sm" 
@@ -53,7 +95,23 @@ export function HistoryPanel({ history, onSelect, onClear }: HistoryPanelProps)
         )}
       </div>
       
-      {history.length === 0 ? (
+      {(total > 0 || hasFilters(query)) && (
+        <ArchiveFilters query={query} facets={facets} onChange={onQueryChange} />
+      )}
+
+      {error && (
+        <p className="px-4 py-2 text-xs text-destructive font-body border-b border-border">{error}</p>
+      )}
+
+      {history.length === 0 && skipped === 0 && hasFilters(query) ? (
+        <div className="p-8 text-center">
+          <SearchX className="h-8 w-8 mx-auto mb-3 text-muted-foreground/50" />
+          <p className="font-headline font-bold text-sm">No Matching Stories</p>
+          <p className="text-xs text-muted-foreground mt-1 font-body">
+            Try a different search or fewer filters
+          </p>
+        </div>
+      ) : history.length === 0 && skipped === 0 ? (
         <div className="p-8 text-center border-t-0">
           <div className="w-16 h-16 mx-auto mb-4 border-2 border-dashed border-border rounded-full flex items-center justify-center">
             <Archive className="h-8 w-8 text-muted-foreground/50" />
@@ -69,45 +127,95 @@ export function HistoryPanel({ history, onSelect, onClear }: HistoryPanelProps)
             {history.map((item, index) => {
               const badgeConfig = getVerdictBadge(item.verdict);
               return (
-                <button
-                  key={item.id}
-                  onClick={() => onSelect(item)}
-                  className={cn(
-                    "w-full text-left p-4 hover:bg-secondary/50 transition-colors relative",
-                    "focus:outline-none focus:bg-secondary/50"
-                  )}
-                >
-                  {/* Edition number */}
-                  <div className="absolute top-2 right-2 text-[10px] font-mono text-muted-foreground">
-                    #{history.length - index}
-                  </div>
-                  
-                  <div className="flex items-start gap-3">
-                    {getVerdictIcon(item.verdict)}
-                    <div className="flex-1 min-w-0 pr-6">
-                      <p className="text-sm line-clamp-2 font-body leading-snug mb-2">
-                        {item.text}
-                      </p>
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Badge 
-                          variant="outline" 
-                          className={cn("text-[10px] font-headline uppercase tracking-wider rounded-none border", badgeConfig.className)}
-                        >
-                          {badgeConfig.label}
-                        </Badge>
-                        <span className="text-[10px] text-muted-foreground flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          {formatDistanceToNow(item.timestamp, { addSuffix: true })}
-                        </span>
+                <div key={item.id} className="relative group">
+                  <button
+                    onClick={() => onSelect(item)}
+                    className={cn(
+                      "w-full text-left p-4 hover:bg-secondary/50 transition-colors relative",
+                      "focus:outline-none focus:bg-secondary/50"
+                    )}
+                  >
+                    {/* Edition number */}
+                    <div className="absolute top-2 right-2 text-[10px] font-mono text-muted-foreground group-hover:invisible">
+                      #{total - page * pageSize - index}
+                    </div>
+                    
+                    <div className="flex items-start gap-3">
+                      {getVerdictIcon(item.verdict)}
+                      <div className="flex-1 min-w-0 pr-6">
+                        <p className="text-sm line-clamp-2 font-body leading-snug mb-2">
+                          {item.text}
+                        </p>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge 
+                            variant="outline" 
+                            className={cn("text-[10px] font-headline uppercase tracking-wider rounded-none border", badgeConfig.className)}
+                          >
+                            {badgeConfig.label}
+                          </Badge>
+                          <span className="text-[10px] text-muted-foreground flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatDistanceToNow(item.timestamp, { addSuffix: true })}
+                          </span>
+                          {item.tags?.map(tag => (
+                            <span key={tag} className="text-[10px] font-mono text-muted-foreground flex items-center gap-0.5">
+                              <Tag className="h-2.5 w-2.5" />
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </button>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRemove(item.id)}
+                    className="absolute top-1 right-1 h-6 w-6 invisible group-hover:visible"
+                    aria-label="Remove from archive"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
               );
             })}
+            {skipped > 0 && (
+              <p className="p-4 text-xs text-muted-foreground italic font-body">
+                {skipped} unreadable {skipped === 1 ? 'entry' : 'entries'} hidden
+              </p>
+            )}
           </div>
         </ScrollArea>
       )}
+
+      {total > 0 && (
+        <div className="border-t-2 border-foreground px-4 py-2 flex items-center justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page === 0}
+            aria-label="Newer entries"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="text-center text-[10px] font-mono text-muted-foreground">
+            <div>Page {page + 1} of {pageCount} · {total} {hasFilters(query) ? 'matches' : 'stories'}</div>
+            {usage && <div>{formatBytes(usage.usage)} of {formatBytes(usage.quota)} used</div>}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount - 1}
+            aria-label="Older entries"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import { useRef, useState } from 'react';
+import { EmotionalLexicon } from '@/lib/emotionalAnalysis';
+import { isBuiltinCategory } from '@/lib/lexicon';
+import { downloadFile } from '@/lib/download';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Plus, X, Upload, Download, RotateCcw, Trash2 } from 'lucide-react';
+
+interface LexiconEditorProps {
+  lexicon: EmotionalLexicon;
+  onAddPhrase: (category: string, phrase: string) => void;
+  onRemovePhrase: (category: string, phrase: string) => void;
+  onWeightChange: (category: string, weight: number) => void;
+  onAddCategory: (name: string, weight: number) => void;
+  onRemoveCategory: (name: string) => void;
+  onImport: (json: string) => void;
+  onExport: () => string;
+  onReset: () => void;
+}
+
+export function LexiconEditor({
+  lexicon,
+  onAddPhrase,
+  onRemovePhrase,
+  onWeightChange,
+  onAddCategory,
+  onRemoveCategory,
+  onImport,
+  onExport,
+  onReset,
+}: LexiconEditorProps) {
+  const categories = Object.keys(lexicon);
+  const [selected, setSelected] = useState(categories[0] ?? '');
+  const [newPhrase, setNewPhrase] = useState('');
+  const [newCategory, setNewCategory] = useState('');
+  const [newCategoryWeight, setNewCategoryWeight] = useState(1);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const category = lexicon[selected] ? selected : categories[0] ?? '';
+  const entry = lexicon[category];
+
+  const handleAddPhrase = () => {
+    if (!category || !newPhrase.trim()) return;
+    onAddPhrase(category, newPhrase);
+    setNewPhrase('');
+  };
+
+  const handleAddCategory = () => {
+    const name = newCategory.trim().toLowerCase();
+    if (!name) return;
+    if (lexicon[name]) {
+      toast({ title: 'Category exists', description: `"${name}" is already in the lexicon.`, variant: 'destructive' });
+      return;
+    }
+    onAddCategory(name, newCategoryWeight);
+    setSelected(name);
+    setNewCategory('');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onImport(await file.text());
+      toast({ title: 'Lexicon imported', description: `Merged categories from ${file.name}.` });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Could not read lexicon file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full rounded-none border-2 border-foreground font-headline font-bold uppercase tracking-wider text-xs"
+        >
+          <BookOpen className="mr-2 h-4 w-4" />
+          Manage Lexicon
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl rounded-none border-2 border-foreground">
+        <DialogHeader>
+          <DialogTitle className="font-headline uppercase tracking-wider">Manipulation Lexicon</DialogTitle>
+          <DialogDescription className="font-body">
+            Phrases the emotional analysis looks for. Your changes are layered over the built-in dictionary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Category picker */}
+          <div className="flex items-center gap-2">
+            <Select value={category} onValueChange={setSelected}>
+              <SelectTrigger className="rounded-none border-2">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name} {!isBuiltinCategory(name) && '(custom)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {category && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemoveCategory(category)}
+                title={isBuiltinCategory(category) ? 'Disable category' : 'Delete category'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          {entry && (
+            <>
+              {/* Category weight */}
+              <div className="space-y-1.5">
+                <div className="flex justify-between text-sm">
+                  <span className="font-body">Category weight</span>
+                  <span className="font-mono text-xs text-muted-foreground">{entry.weight.toFixed(1)}×</span>
+                </div>
+                <Slider
+                  value={[entry.weight]}
+                  min={0}
+                  max={3}
+                  step={0.1}
+                  onValueChange={([weight]) => onWeightChange(category, weight)}
+                />
+              </div>
+
+              {/* Phrases */}
+              <ScrollArea className="h-40 border border-border p-2">
+                <div className="flex flex-wrap gap-1">
+                  {entry.words.map(word => (
+                    <Badge key={word} variant="outline" className="text-xs gap-1 pr-1">
+                      {word}
+                      <button onClick={() => onRemovePhrase(category, word)} aria-label={`Remove ${word}`}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              <div className="flex gap-2">
+                <Input
+                  value={newPhrase}
+                  onChange={(e) => setNewPhrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddPhrase()}
+                  placeholder="Add a phrase, e.g. miracle supplement"
+                  className="rounded-none border-2"
+                />
+                <Button variant="outline" className="rounded-none border-2" onClick={handleAddPhrase}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </>
+          )}
+
+          {/* New category */}
+          <div className="border-t border-border pt-4 space-y-2">
+            <span className="text-xs font-headline font-bold uppercase tracking-wider text-muted-foreground">
+              New Category
+            </span>
+            <div className="flex gap-2 items-center">
+              <Input
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value)}
+                placeholder="e.g. health claims"
+                className="rounded-none border-2"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={3}
+                step={0.1}
+                value={newCategoryWeight}
+                onChange={(e) => setNewCategoryWeight(Number(e.target.value))}
+                className="rounded-none border-2 w-20"
+                aria-label="Category weight"
+              />
+              <Button variant="outline" className="rounded-none border-2" onClick={handleAddCategory}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Import / export */}
+          <div className="border-t border-border pt-4 flex flex-wrap gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" className="rounded-none" onClick={() => fileInput.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import JSON
+            </Button>
+            <Button variant="outline" size="sm" className="rounded-none" onClick={() => downloadFile(onExport(), 'lexicon.json')}>
+              <Download className="mr-2 h-4 w-4" />
+              Export JSON
+            </Button>
+            <Button variant="ghost" size="sm" className="rounded-none ml-auto" onClick={onReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Restore Defaults
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,31 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Search, Loader2, FileText } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search, Loader2, FileText, Link2 } from 'lucide-react';
 
 interface NewsInputProps {
   onAnalyze: (text: string) => void;
+  onAnalyzeUrl: (url: string) => void;
   isAnalyzing: boolean;
 }
 
-export function NewsInput({ onAnalyze, isAnalyzing }: NewsInputProps) {
+type InputMode = 'text' | 'url';
+
+export function NewsInput({ onAnalyze, onAnalyzeUrl, isAnalyzing }: NewsInputProps) {
+  const [mode, setMode] = useState<InputMode>('text');
   const [text, setText] = useState('');
+  const [url, setUrl] = useState('');
+
+  const value = mode === 'text' ? text : url;
 
   const handleSubmit = () => {
-    if (text.trim().length > 0) {
+    if (value.trim().length === 0) return;
+    if (mode === 'text') {
       onAnalyze(text.trim());
+    } else {
+      onAnalyzeUrl(url.trim());
     }
   };
 
@@ -31,24 +43,54 @@ export function NewsInput({ onAnalyze, isAnalyzing }: NewsInputProps) {
       </div>
       
       <div className="p-6 relative space-y-4">
-        <div className="relative">
-          <Textarea
-            placeholder="Paste your news headline or article text here for verification...
+        <Tabs value={mode} onValueChange={(v) => setMode(v as InputMode)}>
+          <TabsList className="rounded-none border-2 border-border bg-secondary/50">
+            <TabsTrigger value="text" className="rounded-none font-headline uppercase tracking-wider text-xs" disabled={isAnalyzing}>
+              <FileText className="mr-2 h-3 w-3" />
+              Article Text
+            </TabsTrigger>
+            <TabsTrigger value="url" className="rounded-none font-headline uppercase tracking-wider text-xs" disabled={isAnalyzing}>
+              <Link2 className="mr-2 h-3 w-3" />
+              From a Link
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="text">
+            <div className="relative">
+              <Textarea
+                placeholder="Paste your news headline or article text here for verification...
 
 Example: 'Scientists discover revolutionary new energy source that could power cities for centuries' or 'SHOCKING revelation that you won't believe!!!'"
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            className="min-h-[180px] resize-none font-body text-base bg-background/50 border-2 border-border focus:border-foreground transition-colors rounded-none"
-            disabled={isAnalyzing}
-          />
-          <div className="absolute bottom-3 right-3 flex items-center gap-3 text-xs text-muted-foreground">
-            <span className="font-mono">{text.length} chars</span>
-          </div>
-        </div>
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="min-h-[180px] resize-none font-body text-base bg-background/50 border-2 border-border focus:border-foreground transition-colors rounded-none"
+                disabled={isAnalyzing}
+              />
+              <div className="absolute bottom-3 right-3 flex items-center gap-3 text-xs text-muted-foreground">
+                <span className="font-mono">{text.length} chars</span>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="url" className="space-y-2">
+            <Input
+              type="url"
+              placeholder="https://example.com/news/story"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              className="h-12 font-mono text-sm bg-background/50 border-2 border-border focus:border-foreground transition-colors rounded-none"
+              disabled={isAnalyzing}
+            />
+            <p className="text-xs text-muted-foreground font-body">
+              We'll fetch the page, extract the headline, byline, date and story, and score the publishing site as a source.
+            </p>
+          </TabsContent>
+        </Tabs>
         
         <Button 
           onClick={handleSubmit} 
-          disabled={text.trim().length === 0 || isAnalyzing}
+          disabled={value.trim().length === 0 || isAnalyzing}
           className="w-full h-12 text-base font-headline font-bold uppercase tracking-wider rounded-none border-2 border-foreground hover:bg-foreground hover:text-background transition-all"
           variant="outline"
           size="lg"
@@ -61,7 +103,7 @@ Example: 'Scientists discover revolutionary new energy source that could power c
           ) : (
             <>
               <Search className="mr-2 h-5 w-5" />
-              Verify This Story
+              {mode === 'url' ? 'Fetch & Verify Story' : 'Verify This Story'}
             </>
           )}
         </Button>
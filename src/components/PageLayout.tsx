@@ -0,0 +1,99 @@
+import { ReactNode } from 'react';
+import { NavLink } from '@/components/NavLink';
+import { Shield, LucideIcon } from 'lucide-react';
+
+interface PageLayoutProps {
+  department: string;
+  icon: LucideIcon;
+  children: ReactNode;
+}
+
+const NAV_ITEMS = [
+  { to: '/', label: 'Verify a Story' },
+  { to: '/batch', label: 'Batch Desk' },
+  { to: '/compare', label: 'Compare' },
+];
+
+export function PageLayout({ department, icon: Icon, children }: PageLayoutProps) {
+  const currentDate = new Date().toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return (
+    <div className="min-h-screen bg-background relative">
+      {/* Newspaper texture overlay */}
+      <div className="fixed inset-0 opacity-[0.03] pointer-events-none bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIzMDAiIGhlaWdodD0iMzAwIj48ZmlsdGVyIGlkPSJhIiB4PSIwIiB5PSIwIj48ZmVUdXJidWxlbmNlIGJhc2VGcmVxdWVuY3k9Ii43NSIgc3RpdGNoVGlsZXM9InN0aXRjaCIgdHlwZT0iZnJhY3RhbE5vaXNlIi8+PGZlQ29sb3JNYXRyaXggdHlwZT0ic2F0dXJhdGUiIHZhbHVlcz0iMCIvPjwvZmlsdGVyPjxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbHRlcj0idXJsKCNhKSIvPjwvc3ZnPg==')]" />
+      
+      {/* Header - Newspaper Masthead Style */}
+      <header className="border-b-4 border-foreground bg-card/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4">
+          {/* Top bar */}
+          <div className="flex items-center justify-between py-2 text-xs border-b border-border text-muted-foreground">
+            <span>Est. 2024</span>
+            <span className="font-medium">{currentDate}</span>
+            <span>Vol. 1 No. 1</span>
+          </div>
+          
+          {/* Main masthead */}
+          <div className="py-6 text-center">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <div className="h-px flex-1 bg-foreground max-w-[100px]" />
+              <Shield className="h-6 w-6 text-foreground" />
+              <div className="h-px flex-1 bg-foreground max-w-[100px]" />
+            </div>
+            <h1 className="font-newspaper-title text-4xl md:text-6xl tracking-wide">
+              The Veritas Tribune
+            </h1>
+            <p className="font-headline text-sm md:text-base mt-2 italic text-muted-foreground">
+              "Separating Fact from Fiction Since the Digital Age"
+            </p>
+            <div className="newspaper-divider mt-4 max-w-md mx-auto" />
+          </div>
+
+          {/* Section navigation */}
+          <nav className="flex items-center justify-center gap-6 pb-3 text-xs font-headline font-bold uppercase tracking-widest">
+            {NAV_ITEMS.map(item => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                end
+                className="text-muted-foreground hover:text-foreground transition-colors border-b-2 border-transparent pb-0.5"
+                activeClassName="text-foreground border-foreground"
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 relative">
+        {/* Section Header */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 px-4 py-1 bg-foreground text-background text-xs font-bold uppercase tracking-widest">
+            <Icon className="h-3 w-3" />
+            {department}
+          </div>
+        </div>
+
+        {children}
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t-4 border-foreground mt-12 bg-card">
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">
+            <div className="font-newspaper-title text-2xl mb-2">The Veritas Tribune</div>
+            <p className="text-xs text-muted-foreground font-body">
+              © 2024 The Veritas Tribune • All Rights Reserved • Fighting Misinformation One Story at a Time
+            </p>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
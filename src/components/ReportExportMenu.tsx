@@ -0,0 +1,69 @@
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { reportFileName, reportToHtml, reportToJson, reportToMarkdown } from '@/lib/reportExport';
+import { downloadFile, printHtml } from '@/lib/download';
+import { createPermalink } from '@/lib/permalink';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Printer, FileText, FileJson, Link2 } from 'lucide-react';
+
+interface ReportExportMenuProps {
+  result: AnalysisResult;
+}
+
+export function ReportExportMenu({ result }: ReportExportMenuProps) {
+  const name = reportFileName(result);
+
+  const copyPermalink = async () => {
+    try {
+      await navigator.clipboard.writeText(await createPermalink(result));
+      toast({ title: 'Link copied', description: 'Anyone with the link can open this report.' });
+    } catch (error) {
+      toast({
+        title: 'Could not create link',
+        description: error instanceof Error ? error.message : 'Copying to the clipboard failed.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-background/70 hover:text-background hover:bg-background/10"
+          aria-label="Share or export report"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="rounded-none">
+        <DropdownMenuItem onClick={copyPermalink}>
+          <Link2 className="mr-2 h-4 w-4" />
+          Copy share link
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => printHtml(reportToHtml(result))}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => downloadFile(reportToMarkdown(result), `${name}.md`, 'text/markdown')}>
+          <FileText className="mr-2 h-4 w-4" />
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => downloadFile(reportToJson(result), `${name}.json`)}>
+          <FileJson className="mr-2 h-4 w-4" />
+          JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
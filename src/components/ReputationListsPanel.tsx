@@ -0,0 +1,181 @@
+import { useRef, useState } from 'react';
+import {
+  BUILTIN_REPUTATION_LIST,
+  formatProvenance,
+  OverrideReputation,
+  ReputationList,
+  ReputationOverrides,
+} from '@/lib/reputationLists';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ListChecks, Upload, Trash2, Loader2, Shield, ShieldAlert, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReputationListsPanelProps {
+  lists: ReputationList[];
+  overrides: ReputationOverrides;
+  isImporting: boolean;
+  error: string | null;
+  onImport: (file: File) => Promise<ReputationList | null>;
+  onRemoveList: (id: string) => void;
+  onSetOverride: (domain: string, reputation: OverrideReputation) => boolean;
+  onRemoveOverride: (domain: string) => void;
+}
+
+export function ReputationListsPanel({
+  lists,
+  overrides,
+  isImporting,
+  error,
+  onImport,
+  onRemoveList,
+  onSetOverride,
+  onRemoveOverride,
+}: ReputationListsPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [domain, setDomain] = useState('');
+
+  const handleFile = async (file: File) => {
+    const list = await onImport(file);
+    if (list) {
+      toast({
+        title: 'Reputation list imported',
+        description: `${list.entries.length} domains from ${formatProvenance({ list: list.name, version: list.version, date: list.date })}.`,
+      });
+    }
+  };
+
+  const handleOverride = (reputation: OverrideReputation) => {
+    if (!domain.trim()) return;
+    if (onSetOverride(domain, reputation)) {
+      setDomain('');
+    } else {
+      toast({ title: 'Not a domain', description: `"${domain.trim()}" is not a domain name.`, variant: 'destructive' });
+    }
+  };
+
+  const overrideEntries = Object.entries(overrides).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      <div className="bg-foreground text-background px-4 py-3">
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Source Reputation Lists
+        </h3>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <p className="text-xs text-muted-foreground font-body leading-relaxed">
+          Import domain lists (JSON or CSV, e.g. media-bias datasets). Later imports take
+          precedence over earlier ones; your overrides take precedence over every list.
+        </p>
+
+        <div className="space-y-1">
+          {[BUILTIN_REPUTATION_LIST, ...lists].map(list => (
+            <div key={list.id} className="flex items-center gap-2 text-xs font-mono">
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{formatProvenance({ list: list.name, version: list.version, date: list.date })}</div>
+                {list.importedAt && (
+                  <div className="text-muted-foreground">Imported {new Date(list.importedAt).toLocaleDateString()}</div>
+                )}
+              </div>
+              <span className="text-muted-foreground">{list.entries.length}</span>
+              {list.importedAt ? (
+                <button
+                  onClick={() => onRemoveList(list.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${list.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              ) : (
+                <span className="w-3.5" />
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-xs text-destructive font-body">{error}</p>}
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full rounded-none"
+          onClick={() => fileInput.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import List
+        </Button>
+
+        {/* Per-user overrides */}
+        <div className="border-t border-border pt-3 space-y-2">
+          <span className="text-xs font-headline font-bold uppercase tracking-wider text-muted-foreground">
+            Your Overrides
+          </span>
+          <div className="flex gap-1">
+            <Input
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="example.com"
+              className="rounded-none border-2 h-8 text-xs font-mono"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-none border-2 h-8 px-2"
+              onClick={() => handleOverride('trusted')}
+              title="Mark trusted"
+            >
+              <Shield className="h-4 w-4 text-success" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-none border-2 h-8 px-2"
+              onClick={() => handleOverride('unreliable')}
+              title="Mark untrusted"
+            >
+              <ShieldAlert className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+          {overrideEntries.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {overrideEntries.map(([overrideDomain, override]) => (
+                <Badge
+                  key={overrideDomain}
+                  variant="outline"
+                  className={cn(
+                    'rounded-none font-mono text-[10px] gap-1',
+                    override.reputation === 'trusted' ? 'border-success text-success' : 'border-destructive text-destructive'
+                  )}
+                >
+                  {overrideDomain}
+                  <button onClick={() => onRemoveOverride(overrideDomain)} aria-label={`Remove override for ${overrideDomain}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs italic text-muted-foreground font-body">No overrides</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
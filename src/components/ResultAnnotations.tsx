@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { ArchiveAnnotations, normalizeTag } from '@/lib/archive';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Tag, Plus, X, StickyNote } from 'lucide-react';
+
+interface ResultAnnotationsProps {
+  result: AnalysisResult;
+  suggestions?: string[];
+  onSave: (id: string, annotations: ArchiveAnnotations) => void;
+}
+
+export function ResultAnnotations({ result, suggestions = [], onSave }: ResultAnnotationsProps) {
+  const tags = result.tags ?? [];
+  const [newTag, setNewTag] = useState('');
+  const [notes, setNotes] = useState(result.notes ?? '');
+
+  useEffect(() => {
+    setNotes(result.notes ?? '');
+  }, [result.id, result.notes]);
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (!tag || tags.includes(tag)) return;
+    onSave(result.id, { tags: [...tags, tag], notes: result.notes });
+    setNewTag('');
+  };
+
+  const removeTag = (tag: string) => {
+    onSave(result.id, { tags: tags.filter(t => t !== tag), notes: result.notes });
+  };
+
+  const saveNotes = () => {
+    if (notes.trim() === (result.notes ?? '')) return;
+    onSave(result.id, { tags, notes });
+  };
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      <div className="bg-foreground text-background px-4 py-3 flex items-center gap-2">
+        <StickyNote className="h-4 w-4" />
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm">Editor's Notes</h3>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {tags.length === 0 && (
+              <span className="text-xs text-muted-foreground italic font-body">No tags yet</span>
+            )}
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="rounded-none gap-1 font-mono text-xs">
+                <Tag className="h-3 w-3" />
+                {tag}
+                <button onClick={() => removeTag(tag)} aria-label={`Remove tag ${tag}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag()}
+              placeholder="Add a tag..."
+              list="archive-tag-suggestions"
+              className="h-8 rounded-none text-xs"
+            />
+            <datalist id="archive-tag-suggestions">
+              {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+            </datalist>
+            <Button variant="outline" size="sm" className="h-8 rounded-none" onClick={addTag} disabled={!newTag.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          placeholder="Notes for the desk (saved when you click away)"
+          className="min-h-[80px] rounded-none text-sm font-body"
+        />
+      </div>
+    </div>
+  );
+}
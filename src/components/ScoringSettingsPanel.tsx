@@ -0,0 +1,147 @@
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { defaultAnalyzerRegistry, rescoreResult, ScoringConfig, Verdict } from '@/lib/analysisEngine';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { SlidersHorizontal, RotateCcw, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ScoringSettingsPanelProps {
+  settings: ScoringConfig;
+  currentResult: AnalysisResult | null;
+  onWeightChange: (id: string, weight: number) => void;
+  onThresholdsChange: (thresholds: ScoringConfig['thresholds']) => void;
+  onReset: () => void;
+}
+
+const verdictBadge: Record<Verdict, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-success/10 text-success border-success/30' },
+  fake: { label: 'Disputed', className: 'bg-destructive/10 text-destructive border-destructive/30' },
+  uncertain: { label: 'Uncertain', className: 'bg-warning/10 text-warning border-warning/30' },
+};
+
+export function ScoringSettingsPanel({
+  settings,
+  currentResult,
+  onWeightChange,
+  onThresholdsChange,
+  onReset,
+}: ScoringSettingsPanelProps) {
+  const analyzers = defaultAnalyzerRegistry.list();
+  const totalWeight = analyzers.reduce((sum, a) => sum + (settings.weights[a.id] ?? a.weight), 0);
+  const preview = currentResult ? rescoreResult(currentResult, settings) : null;
+
+  return (
+    <div className="border-2 border-foreground bg-card">
+      {/* Header */}
+      <div className="bg-foreground text-background px-4 py-3 flex items-center justify-between">
+        <h3 className="font-headline font-bold uppercase tracking-wider text-sm flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Editorial Settings
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onReset}
+          className="text-background/70 hover:text-background hover:bg-background/10 h-7 px-2"
+          title="Restore defaults"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="p-4 space-y-5">
+        {/* Analyzer weights */}
+        <div className="space-y-3">
+          <span className="text-xs font-headline font-bold uppercase tracking-wider text-muted-foreground">
+            Analyzer Weights
+          </span>
+          {analyzers.map(analyzer => {
+            const weight = settings.weights[analyzer.id] ?? analyzer.weight;
+            const share = totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
+            return (
+              <div key={analyzer.id} className="space-y-1.5">
+                <div className="flex justify-between text-sm">
+                  <span className="font-body">{analyzer.label}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{share}%</span>
+                </div>
+                <Slider
+                  value={[weight]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => onWeightChange(analyzer.id, value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Verdict thresholds */}
+        <div className="space-y-3 border-t border-border pt-4">
+          <span className="text-xs font-headline font-bold uppercase tracking-wider text-muted-foreground">
+            Verdict Cut-offs
+          </span>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-sm">
+              <span className="font-body">Disputed at or above</span>
+              <span className="font-mono text-xs text-muted-foreground">{settings.thresholds.fake}</span>
+            </div>
+            <Slider
+              value={[settings.thresholds.fake]}
+              min={1}
+              max={100}
+              step={1}
+              onValueChange={([fake]) => onThresholdsChange({ ...settings.thresholds, fake })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-sm">
+              <span className="font-body">Verified at or below</span>
+              <span className="font-mono text-xs text-muted-foreground">{settings.thresholds.verified}</span>
+            </div>
+            <Slider
+              value={[settings.thresholds.verified]}
+              min={0}
+              max={99}
+              step={1}
+              onValueChange={([verified]) => onThresholdsChange({ ...settings.thresholds, verified })}
+            />
+          </div>
+        </div>
+
+        {/* Live preview against the current result */}
+        {currentResult && preview && (
+          <div className="border-t border-border pt-4 space-y-2">
+            <span className="text-xs font-headline font-bold uppercase tracking-wider text-muted-foreground">
+              Preview on Current Story
+            </span>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge
+                variant="outline"
+                className={cn("text-[10px] font-headline uppercase tracking-wider rounded-none border", verdictBadge[currentResult.verdict].className)}
+              >
+                {verdictBadge[currentResult.verdict].label}
+              </Badge>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <Badge
+                variant="outline"
+                className={cn("text-[10px] font-headline uppercase tracking-wider rounded-none border", verdictBadge[preview.verdict].className)}
+              >
+                {verdictBadge[preview.verdict].label}
+              </Badge>
+              <span className="text-xs font-mono text-muted-foreground ml-auto">
+                {currentResult.score} → {preview.score}
+              </span>
+            </div>
+            {preview.verdict !== currentResult.verdict && (
+              <p className="text-xs text-muted-foreground font-body italic">
+                Re-run the analysis to apply these settings to the report.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,12 @@ import { Progress } from '@/components/ui/progress';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { CheckCircle2, XCircle, AlertCircle, ChevronDown, FileSearch, Stamp, Brain, Globe, Search, ExternalLink, Shield, ShieldAlert, ShieldQuestion } from 'lucide-react';
+import { HighlightedText } from '@/components/HighlightedText';
+import { ReportExportMenu } from '@/components/ReportExportMenu';
+import { FactCheckClaimCard } from '@/components/FactCheckClaimCard';
+import { BIAS_LABELS, FACTUAL_REPORTING_LABELS, formatProvenance } from '@/lib/reputationLists';
 import { useState } from 'react';
-import { cn } from '@/lib/utils';
+import { cn, toHttpUrl } from '@/lib/utils';
 
 interface VerdictDisplayProps {
   result: AnalysisResult;
@@ -13,6 +17,7 @@ interface VerdictDisplayProps {
 
 export function VerdictDisplay({ result }: VerdictDisplayProps) {
   const [isOpen, setIsOpen] = useState(true);
+  const articleUrl = toHttpUrl(result.article?.canonicalUrl);
 
   const verdictConfig = {
     verified: {
@@ -64,9 +69,36 @@ export function VerdictDisplay({ result }: VerdictDisplayProps) {
         <div className="ml-auto text-xs opacity-70">
           {new Date(result.timestamp).toLocaleTimeString()}
         </div>
+        <ReportExportMenu result={result} />
       </div>
 
       <div className="p-6 relative space-y-6">
+        {/* Fetched article details */}
+        {result.article && (
+          <div className="border-b-2 border-border pb-4 space-y-1">
+            <h3 className="font-headline text-xl font-bold leading-tight">{result.article.title}</h3>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground font-body">
+              {result.article.byline && <span>By {result.article.byline}</span>}
+              {result.article.publishedAt && (
+                <span>{new Date(result.article.publishedAt).toLocaleDateString()}</span>
+              )}
+              {articleUrl ? (
+                <a
+                  href={articleUrl.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline flex items-center gap-1 font-mono"
+                >
+                  {result.article.siteName ?? articleUrl.hostname}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ) : (
+                result.article.siteName && <span className="font-mono">{result.article.siteName}</span>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Main Verdict with Stamp */}
         <div className="relative flex items-center justify-between">
           <div className="flex items-center gap-4">
@@ -308,21 +340,41 @@ export function VerdictDisplay({ result }: VerdictDisplayProps) {
                         {result.sourceCredibility.foundSources.map((source, idx) => (
                           <div key={idx} className="flex items-center gap-3 p-2 bg-background/50 border border-border rounded">
                             {source.reputation === 'trusted' && <Shield className="h-4 w-4 text-success" />}
-                            {source.reputation === 'unreliable' && <ShieldAlert className="h-4 w-4 text-destructive" />}
+                            {(source.reputation === 'unreliable' || source.reputation === 'impersonation') && <ShieldAlert className="h-4 w-4 text-destructive" />}
                             {source.reputation === 'satire' && <ShieldQuestion className="h-4 w-4 text-warning" />}
                             {(source.reputation === 'mixed' || source.reputation === 'unknown') && <ShieldQuestion className="h-4 w-4 text-muted-foreground" />}
                             <div className="flex-1">
                               <span className="font-mono text-sm">{source.domain}</span>
+                              {source.isPublisher && (
+                                <Badge variant="secondary" className="text-[10px] ml-2">Publisher</Badge>
+                              )}
                               {source.category && (
                                 <span className="text-xs text-muted-foreground ml-2">({source.category})</span>
                               )}
+                              {source.reliability !== undefined && (
+                                <p className="text-[10px] text-muted-foreground font-mono mt-0.5">
+                                  Reliability {source.reliability}/100
+                                  {source.bias && ` · ${BIAS_LABELS[source.bias]} bias`}
+                                  {source.factualReporting && ` · ${FACTUAL_REPORTING_LABELS[source.factualReporting]} factual reporting`}
+                                </p>
+                              )}
+                              {source.provenance && (
+                                <p className="text-[10px] text-muted-foreground mt-0.5">
+                                  Per {formatProvenance(source.provenance)}
+                                </p>
+                              )}
+                              {source.redirectChain && (
+                                <p className="font-mono text-xs text-muted-foreground mt-1 break-all">
+                                  {source.redirectChain.join(' → ')}
+                                </p>
+                              )}
                             </div>
                             <Badge 
                               variant="outline" 
                               className={cn(
                                 "text-xs",
                                 source.reputation === 'trusted' && "border-success text-success",
-                                source.reputation === 'unreliable' && "border-destructive text-destructive",
+                                (source.reputation === 'unreliable' || source.reputation === 'impersonation') && "border-destructive text-destructive",
                                 source.reputation === 'satire' && "border-warning text-warning"
                               )}
                             >
@@ -379,50 +431,33 @@ export function VerdictDisplay({ result }: VerdictDisplayProps) {
                     <p className="text-sm text-destructive">
                       Error: {result.factCheckResults.error}
                     </p>
+                  ) : result.factCheckResults.checkedClaims ? (
+                    <div className="space-y-4">
+                      {result.factCheckResults.checkedClaims.map(checked => (
+                        <div key={checked.start} className="space-y-2">
+                          <div className="border-l-2 border-primary/50 pl-3">
+                            <span className="text-[10px] font-headline uppercase tracking-wider text-muted-foreground">
+                              Checked claim
+                            </span>
+                            <p className="text-sm italic">{checked.text}</p>
+                          </div>
+                          {checked.claims.length > 0 ? (
+                            checked.claims.map((claim, idx) => <FactCheckClaimCard key={idx} claim={claim} />)
+                          ) : (
+                            <p className="text-xs text-muted-foreground italic pl-3">
+                              No fact-checks found for this claim.
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
                   ) : result.factCheckResults.claims.length > 0 ? (
                     <div className="space-y-3">
                       <p className="text-sm text-muted-foreground">
                         Related claims found by fact-checking organizations:
                       </p>
                       {result.factCheckResults.claims.map((claim, idx) => (
-                        <div key={idx} className="p-3 bg-background/50 border border-border rounded space-y-2">
-                          <p className="text-sm font-medium">"{claim.text}"</p>
-                          <div className="flex flex-wrap items-center gap-2 text-xs">
-                            {claim.claimant && (
-                              <span className="text-muted-foreground">
-                                Claimed by: {claim.claimant}
-                              </span>
-                            )}
-                          </div>
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              <Badge 
-                                variant="outline"
-                                className={cn(
-                                  "text-xs",
-                                  claim.ratingValue !== undefined && claim.ratingValue <= 30 && "border-success text-success",
-                                  claim.ratingValue !== undefined && claim.ratingValue > 30 && claim.ratingValue <= 60 && "border-warning text-warning",
-                                  claim.ratingValue !== undefined && claim.ratingValue > 60 && "border-destructive text-destructive"
-                                )}
-                              >
-                                {claim.rating}
-                              </Badge>
-                              <span className="text-xs text-muted-foreground">
-                                by {claim.publisher}
-                              </span>
-                            </div>
-                            {claim.url && (
-                              <a 
-                                href={claim.url} 
-                                target="_blank" 
-                                rel="noopener noreferrer"
-                                className="text-xs text-primary hover:underline flex items-center gap-1"
-                              >
-                                View <ExternalLink className="h-3 w-3" />
-                              </a>
-                            )}
-                          </div>
-                        </div>
+                        <FactCheckClaimCard key={idx} claim={claim} />
                       ))}
                     </div>
                   ) : (
@@ -430,6 +465,15 @@ export function VerdictDisplay({ result }: VerdictDisplayProps) {
                       No related fact-checks found for this content.
                     </p>
                   )}
+                  {result.factCheckResults.providers && result.factCheckResults.providers.length > 1 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground border-t border-border pt-2">
+                      {result.factCheckResults.providers.map(provider => (
+                        <span key={provider.id} className={cn(provider.error && "text-destructive")}>
+                          {provider.label}: {provider.error ? 'unavailable' : `${provider.claims} found`}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </AccordionContent>
             </AccordionItem>
@@ -441,9 +485,19 @@ export function VerdictDisplay({ result }: VerdictDisplayProps) {
           <div className="absolute -top-3 left-4 bg-card px-2 text-xs font-headline uppercase tracking-wider text-muted-foreground">
             Submitted Article
           </div>
-          <p className="font-body text-sm italic leading-relaxed line-clamp-4 mt-1">
-            "{result.text}"
-          </p>
+          {result.evidence && result.evidence.length > 0 ? (
+            <div className="mt-1 max-h-80 overflow-y-auto">
+              <HighlightedText
+                text={result.text}
+                evidence={result.evidence}
+                className="font-body text-sm leading-relaxed"
+              />
+            </div>
+          ) : (
+            <p className="font-body text-sm italic leading-relaxed line-clamp-4 mt-1">
+              "{result.text}"
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AnalysisResult } from '@/lib/analysisEngine';
+import {
+  addToArchive,
+  annotateArchiveEntry,
+  ArchiveAnnotations,
+  ArchiveFacets,
+  ArchivePage,
+  ArchiveQuery,
+  ArchiveUsage,
+  clearArchive,
+  EMPTY_FACETS,
+  estimateArchiveUsage,
+  getArchiveFacets,
+  listArchive,
+  mergeFacets,
+  removeFromArchive,
+} from '@/lib/archive';
+
+const PAGE_SIZE = 10;
+
+export function useArchive() {
+  const [page, setPage] = useState(0);
+  const [query, setQueryState] = useState<ArchiveQuery>({});
+  const [facets, setFacets] = useState<ArchiveFacets>(EMPTY_FACETS);
+  const [entries, setEntries] = useState<ArchivePage>({ items: [], total: 0, skipped: 0 });
+  const [usage, setUsage] = useState<ArchiveUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(entries.total / PAGE_SIZE));
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await listArchive(page * PAGE_SIZE, PAGE_SIZE, query);
+      // Step back if the current page was emptied by a removal
+      if (loaded.items.length === 0 && loaded.skipped === 0 && page > 0) {
+        setPage(Math.max(0, Math.ceil(loaded.total / PAGE_SIZE) - 1));
+        return;
+      }
+      setEntries(loaded);
+      setError(null);
+      setUsage(await estimateArchiveUsage().catch(() => null));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the archive');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, query]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Facets need a full scan, so they are read once and then kept up to date
+  // as results are added or annotated
+  const loadFacets = useCallback(async () => {
+    try {
+      setFacets(await getArchiveFacets());
+    } catch {
+      // Filters still work by search and verdict without the pickers
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFacets();
+  }, [loadFacets]);
+
+  const addResult = async (result: AnalysisResult) => {
+    try {
+      await addToArchive(result);
+      setFacets(current => mergeFacets(current, [result]));
+      if (page === 0) {
+        await refresh();
+      } else {
+        setPage(0);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save to the archive');
+    }
+  };
+
+  const setQuery = (next: ArchiveQuery) => {
+    setQueryState(next);
+    setPage(0);
+  };
+
+  const annotate = async (id: string, annotations: ArchiveAnnotations) => {
+    try {
+      const updated = await annotateArchiveEntry(id, annotations);
+      setFacets(current => mergeFacets(current, [updated]));
+      await refresh();
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the annotations');
+      return null;
+    }
+  };
+
+  const removeResult = async (id: string) => {
+    try {
+      await removeFromArchive(id);
+      await Promise.all([refresh(), loadFacets()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the entry');
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearArchive();
+      setFacets(EMPTY_FACETS);
+      if (page === 0) {
+        await refresh();
+      } else {
+        setPage(0);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not clear the archive');
+    }
+  };
+
+  return {
+    entries: entries.items,
+    total: entries.total,
+    skipped: entries.skipped,
+    page,
+    pageCount,
+    pageSize: PAGE_SIZE,
+    query,
+    facets,
+    usage,
+    isLoading,
+    error,
+    setPage,
+    setQuery,
+    addResult,
+    annotate,
+    removeResult,
+    clear,
+  };
+}
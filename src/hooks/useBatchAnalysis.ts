@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+import { AnalyzeOptions } from '@/lib/analysisEngine';
+import { BatchProgress, BatchResult, BatchRow, parseBatchFile, runBatch } from '@/lib/batch';
+
+export function useBatchAnalysis(options: Pick<AnalyzeOptions, 'scoring' | 'lexicon' | 'reputation'> = {}) {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [progress, setProgress] = useState<BatchProgress>({ completed: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    setResults([]);
+    setProgress({ completed: 0, total: 0 });
+    try {
+      const parsed = parseBatchFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        throw new Error('The file does not contain any rows with text');
+      }
+      setRows(parsed);
+      setFileName(file.name);
+    } catch (err) {
+      setRows([]);
+      setFileName(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const start = async () => {
+    if (rows.length === 0 || isRunning) return;
+    controller.current = new AbortController();
+    setIsRunning(true);
+    setResults([]);
+    setProgress({ completed: 0, total: rows.length });
+
+    await runBatch(rows, {
+      analyzeOptions: options,
+      signal: controller.current.signal,
+      onProgress: (next, latest) => {
+        setProgress(next);
+        setResults(current => [...current, latest]);
+      },
+    });
+
+    controller.current = null;
+    setIsRunning(false);
+  };
+
+  const cancel = () => {
+    controller.current?.abort();
+  };
+
+  const reset = () => {
+    cancel();
+    setRows([]);
+    setFileName(null);
+    setResults([]);
+    setProgress({ completed: 0, total: 0 });
+    setError(null);
+  };
+
+  return {
+    rows,
+    fileName,
+    results,
+    progress,
+    isRunning,
+    error,
+    loadFile,
+    start,
+    cancel,
+    reset
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { clearClaimCorpus, CorpusStats, getClaimCorpusStats, importClaimCorpus } from '@/services/claimCorpus';
+
+export function useClaimCorpus() {
+  const [stats, setStats] = useState<CorpusStats>({ count: 0, sources: [] });
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getClaimCorpusStats());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the claim corpus');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importClaimCorpus(await file.text(), file.name);
+      await refresh();
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the file');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearClaimCorpus();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not clear the claim corpus');
+    }
+  };
+
+  return {
+    stats,
+    isImporting,
+    error,
+    importFile,
+    clear
+  };
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { analyzeText, AnalysisResult, AnalyzeOptions } from '@/lib/analysisEngine';
+import { listArchive } from '@/lib/archive';
+import { compareResults, ResultComparison } from '@/lib/compare';
+
+// Archive entries offered as comparison candidates
+const RECENT_LIMIT = 50;
+
+export type CompareSide =
+  | { kind: 'text'; text: string }
+  | { kind: 'archive'; result: AnalysisResult };
+
+export function useComparison(options: Pick<AnalyzeOptions, 'scoring' | 'lexicon' | 'reputation'> = {}) {
+  const [left, setLeft] = useState<AnalysisResult | null>(null);
+  const [right, setRight] = useState<AnalysisResult | null>(null);
+  const [comparison, setComparison] = useState<ResultComparison | null>(null);
+  const [recent, setRecent] = useState<AnalysisResult[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listArchive(0, RECENT_LIMIT)
+      .then(page => setRecent(page.items))
+      .catch(() => setRecent([]));
+  }, []);
+
+  // Archived results are compared as stored; pasted text is analyzed now
+  const resolve = (side: CompareSide) =>
+    side.kind === 'archive'
+      ? Promise.resolve(side.result)
+      : analyzeText(side.text, { ...options, deterministic: true });
+
+  const compare = async (leftSide: CompareSide, rightSide: CompareSide) => {
+    setIsComparing(true);
+    setError(null);
+    try {
+      const [a, b] = await Promise.all([resolve(leftSide), resolve(rightSide)]);
+      setLeft(a);
+      setRight(b);
+      setComparison(compareResults(a, b));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const reset = () => {
+    setLeft(null);
+    setRight(null);
+    setComparison(null);
+    setError(null);
+  };
+
+  return {
+    left,
+    right,
+    comparison,
+    recent,
+    isComparing,
+    error,
+    compare,
+    reset
+  };
+}
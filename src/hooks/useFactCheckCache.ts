@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  FactCheckCacheSettings,
+  FactCheckCacheStats,
+  getCacheStats,
+  loadCacheSettings,
+  purgeCache,
+  saveCacheSettings,
+} from '@/services/factCheckCache';
+
+export function useFactCheckCache() {
+  const [settings, setSettings] = useState<FactCheckCacheSettings>(loadCacheSettings);
+  const [stats, setStats] = useState<FactCheckCacheStats>({ entries: 0, hits: 0, misses: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getCacheStats());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the fact-check cache');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updateSettings = async (updated: FactCheckCacheSettings) => {
+    try {
+      setSettings(await saveCacheSettings(updated));
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the cache settings');
+    }
+  };
+
+  const purge = async () => {
+    try {
+      await purgeCache();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not purge the fact-check cache');
+    }
+  };
+
+  return {
+    settings,
+    stats,
+    error,
+    refresh,
+    updateSettings,
+    purge
+  };
+}
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react';
+import {
+  combineLexicons,
+  EMPTY_LEXICON_OVERRIDES,
+  exportLexicon,
+  isBuiltinCategory,
+  LexiconOverrides,
+  mergeLexicon,
+  normalizePhrase,
+  parseLexicon,
+} from '@/lib/lexicon';
+
+const STORAGE_KEY = 'customLexicon';
+
+function loadOverrides(): LexiconOverrides {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? parseLexicon(saved) : EMPTY_LEXICON_OVERRIDES;
+  } catch (error) {
+    console.error('Ignoring invalid saved lexicon:', error);
+    return EMPTY_LEXICON_OVERRIDES;
+  }
+}
+
+export function useLexicon() {
+  const [overrides, setOverrides] = useState<LexiconOverrides>(loadOverrides);
+  const lexicon = useMemo(() => mergeLexicon(overrides), [overrides]);
+
+  const saveOverrides = (updated: LexiconOverrides) => {
+    setOverrides(updated);
+    localStorage.setItem(STORAGE_KEY, exportLexicon(updated));
+  };
+
+  const updateCategory = (name: string, update: (current: LexiconOverrides['categories'][string]) => LexiconOverrides['categories'][string]) => {
+    const current = overrides.categories[name] ?? {};
+    saveOverrides({ ...overrides, categories: { ...overrides.categories, [name]: update(current) } });
+  };
+
+  const addPhrase = (category: string, phrase: string) => {
+    const normalized = normalizePhrase(phrase);
+    if (!normalized) return;
+    updateCategory(category, current => ({
+      ...current,
+      added: [...(current.added ?? []).filter(p => p !== normalized), normalized],
+      removed: (current.removed ?? []).filter(p => p !== normalized),
+    }));
+  };
+
+  const removePhrase = (category: string, phrase: string) => {
+    const normalized = normalizePhrase(phrase);
+    updateCategory(category, current => ({
+      ...current,
+      added: (current.added ?? []).filter(p => p !== normalized),
+      removed: isBuiltinCategory(category)
+        ? [...(current.removed ?? []).filter(p => p !== normalized), normalized]
+        : current.removed,
+    }));
+  };
+
+  const setCategoryWeight = (category: string, weight: number) => {
+    updateCategory(category, current => ({ ...current, weight }));
+  };
+
+  const addCategory = (name: string, weight: number, phrases: string[] = []) => {
+    const key = normalizePhrase(name);
+    if (!key || lexicon[key]) return;
+    updateCategory(key, () => ({ added: phrases.map(normalizePhrase).filter(Boolean), weight }));
+  };
+
+  const removeCategory = (name: string) => {
+    if (isBuiltinCategory(name)) {
+      updateCategory(name, current => ({ ...current, disabled: true }));
+    } else {
+      const { [name]: _removed, ...rest } = overrides.categories;
+      saveOverrides({ ...overrides, categories: rest });
+    }
+  };
+
+  /**
+   * Merge an imported lexicon file over the current customizations
+   * @throws Error when the file is not a valid lexicon
+   */
+  const importLexicon = (json: string) => {
+    saveOverrides(combineLexicons(overrides, parseLexicon(json)));
+  };
+
+  const resetLexicon = () => {
+    setOverrides(EMPTY_LEXICON_OVERRIDES);
+    localStorage.removeItem(STORAGE_KEY);
+  };
+
+  return {
+    lexicon,
+    overrides,
+    addPhrase,
+    removePhrase,
+    setCategoryWeight,
+    addCategory,
+    removeCategory,
+    importLexicon,
+    exportLexicon: () => exportLexicon(overrides),
+    resetLexicon
+  };
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import {
+  BUILTIN_REPUTATION_LIST,
+  buildReputationIndex,
+  normalizeReputationDomain,
+  OverrideReputation,
+  parseReputationList,
+  ReputationList,
+  ReputationOverrides,
+} from '@/lib/reputationLists';
+
+const LISTS_KEY = 'reputationLists';
+const OVERRIDES_KEY = 'reputationOverrides';
+
+function loadSaved<T>(key: string, isValid: (value: unknown) => value is T, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed: unknown = saved ? JSON.parse(saved) : fallback;
+    return isValid(parsed) ? parsed : fallback;
+  } catch (error) {
+    console.error(`Ignoring invalid saved ${key}:`, error);
+    return fallback;
+  }
+}
+
+const isListArray = (value: unknown): value is ReputationList[] =>
+  Array.isArray(value) && value.every(list => list && typeof list.name === 'string' && Array.isArray(list.entries));
+
+const isOverrides = (value: unknown): value is ReputationOverrides =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export function useReputationLists() {
+  const [lists, setLists] = useState<ReputationList[]>(() => loadSaved(LISTS_KEY, isListArray, []));
+  const [overrides, setOverrides] = useState<ReputationOverrides>(() => loadSaved(OVERRIDES_KEY, isOverrides, {}));
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reputation = useMemo(
+    () => buildReputationIndex([BUILTIN_REPUTATION_LIST, ...lists], overrides),
+    [lists, overrides]
+  );
+
+  const saveLists = (updated: ReputationList[]) => {
+    localStorage.setItem(LISTS_KEY, JSON.stringify(updated));
+    setLists(updated);
+  };
+
+  const saveOverrides = (updated: ReputationOverrides) => {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(updated));
+    setOverrides(updated);
+  };
+
+  /**
+   * Import a JSON or CSV list; a list with the same name is replaced and
+   * moves to the top of the precedence order
+   */
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const list = parseReputationList(await file.text(), file.name);
+      saveLists([...lists.filter(existing => existing.id !== list.id), list]);
+      return list;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the file');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const removeList = (id: string) => {
+    try {
+      saveLists(lists.filter(list => list.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the list');
+    }
+  };
+
+  /**
+   * Mark a domain trusted or untrusted regardless of the lists
+   * @returns false when the input is not a domain
+   */
+  const setOverride = (input: string, reputation: OverrideReputation) => {
+    const domain = normalizeReputationDomain(input);
+    if (!domain) return false;
+    try {
+      saveOverrides({ ...overrides, [domain]: { reputation, updatedAt: Date.now() } });
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the override');
+      return false;
+    }
+  };
+
+  const removeOverride = (domain: string) => {
+    const { [domain]: _removed, ...rest } = overrides;
+    try {
+      saveOverrides(rest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the override');
+    }
+  };
+
+  return {
+    lists,
+    overrides,
+    reputation,
+    isImporting,
+    error,
+    importFile,
+    removeList,
+    setOverride,
+    removeOverride
+  };
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { DEFAULT_SCORING_CONFIG, resolveScoringConfig, ScoringConfig } from '@/lib/analysisEngine';
+
+const STORAGE_KEY = 'scoringSettings';
+
+function loadSettings(): ScoringConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SCORING_CONFIG;
+    return resolveScoringConfig(JSON.parse(saved) as Partial<ScoringConfig>);
+  } catch {
+    return DEFAULT_SCORING_CONFIG;
+  }
+}
+
+export function useScoringSettings() {
+  const [settings, setSettings] = useState<ScoringConfig>(loadSettings);
+
+  const saveSettings = (updated: ScoringConfig) => {
+    setSettings(updated);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const setWeight = (id: string, weight: number) => {
+    saveSettings({ ...settings, weights: { ...settings.weights, [id]: weight } });
+  };
+
+  const setThresholds = (thresholds: ScoringConfig['thresholds']) => {
+    // Keep the verified cut-off strictly below the fake cut-off
+    const fake = Math.max(1, Math.min(100, thresholds.fake));
+    const verified = Math.max(0, Math.min(fake - 1, thresholds.verified));
+    saveSettings({ ...settings, thresholds: { fake, verified } });
+  };
+
+  const resetSettings = () => {
+    setSettings(DEFAULT_SCORING_CONFIG);
+    localStorage.removeItem(STORAGE_KEY);
+  };
+
+  return {
+    settings,
+    setWeight,
+    setThresholds,
+    resetSettings
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Analysis Engine
+ * Framework-free pipeline that turns a piece of text into an AnalysisResult.
+ * Has no dependency on React or browser storage, so it can run in scripts,
+ * workers or on a server.
+ */
+
+import { EmotionalAnalysisResult, EmotionalLexicon } from '@/lib/emotionalAnalysis';
+import { SourceCredibilityResult } from '@/lib/sourceCredibility';
+import { ReputationIndex } from '@/lib/reputationLists';
+import { Analyzer, AnalyzerContext, AnalyzerEvidence, AnalyzerOutput, normalizeWeights } from '@/lib/analyzerRegistry';
+import { defaultAnalyzerRegistry } from '@/lib/builtinAnalyzers';
+import { createSeededRandom } from '@/lib/random';
+import { ArticleMetadata } from '@/lib/articleExtractor';
+import { FactCheckResult } from '@/services/factCheckApi';
+
+export type Verdict = 'fake' | 'verified' | 'uncertain';
+
+export interface AnalysisResult {
+  id: string;
+  text: string;
+  verdict: Verdict;
+  confidence: number;
+  reasons: string[];
+  timestamp: Date;
+  // New enhanced analysis fields
+  emotionalAnalysis?: EmotionalAnalysisResult;
+  sourceCredibility?: SourceCredibilityResult;
+  factCheckResults?: FactCheckResult;
+  // Set when the text was extracted from a fetched web page
+  article?: ArticleMetadata;
+  // Weighted aggregate (0-100, higher = more fake indicators) and its inputs
+  score?: number;
+  analyzerScores?: AnalyzerScore[];
+  evidence?: AnalysisEvidence[];
+  // Editorial annotations added from the archive
+  tags?: string[];
+  notes?: string;
+}
+
+export interface AnalysisEvidence extends AnalyzerEvidence {
+  analyzerId: string;
+}
+
+export interface AnalyzerScore {
+  id: string;
+  label: string;
+  score: number;
+  weight: number; // Effective weight after renormalization, 0 when unavailable
+  available: boolean;
+}
+
+export interface AnalyzeOptions {
+  /** Query the external fact-check API when it is configured (default: true) */
+  factCheck?: boolean;
+  /** Analyzers to run, in order (default: the default registry) */
+  analyzers?: Analyzer[];
+  /** Skip the demo jitter so identical input always yields an identical score (default: false) */
+  deterministic?: boolean;
+  /** Seed for the jitter RNG; makes jittered scores reproducible */
+  seed?: number | string;
+  /** URL the text was published at; its domain is scored as a source */
+  sourceUrl?: string;
+  /** Metadata of the fetched article the text came from, stored on the result */
+  article?: ArticleMetadata;
+  /** Emotional lexicon to use instead of the built-in one */
+  lexicon?: EmotionalLexicon;
+  /** Domain reputation lookup to use instead of the built-in list */
+  reputation?: ReputationIndex;
+  /** Per-analyzer weight overrides and verdict thresholds */
+  scoring?: Partial<ScoringConfig>;
+  /** Override the generated result id */
+  id?: string;
+  /** Override the result timestamp */
+  timestamp?: Date;
+  /** Cancels the analysis; it then rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface VerdictThresholds {
+  fake: number; // Scores at or above this are 'fake'
+  verified: number; // Scores at or below this are 'verified'
+}
+
+export interface ScoringConfig {
+  weights: Record<string, number>; // Relative weight per analyzer id
+  thresholds: VerdictThresholds;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: Object.fromEntries(defaultAnalyzerRegistry.list().map(a => [a.id, a.weight])),
+  thresholds: { fake: 50, verified: 25 },
+};
+
+// Re-export types and the registry for consumers of the engine
+export type { EmotionalAnalysisResult, SourceCredibilityResult, FactCheckResult, Analyzer, AnalyzerContext, AnalyzerOutput, AnalyzerEvidence };
+export { defaultAnalyzerRegistry };
+
+/**
+ * Layer a partial scoring config over the defaults; weights and thresholds
+ * are merged key by key so a single weight override keeps the others
+ */
+export function resolveScoringConfig(scoring: Partial<ScoringConfig> = {}): ScoringConfig {
+  return {
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, ...scoring.weights },
+    thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...scoring.thresholds },
+  };
+}
+
+/**
+ * Run a single analyzer, treating failures as an unavailable signal
+ */
+async function runAnalyzer(analyzer: Analyzer, text: string, context: AnalyzerContext): Promise<AnalyzerOutput | null> {
+  try {
+    if (analyzer.isAvailable && !analyzer.isAvailable()) {
+      return null;
+    }
+    return await analyzer.analyze(text, context);
+  } catch (error) {
+    if (!context.signal?.aborted) console.error(`Analyzer "${analyzer.id}" failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Weight the available analyzer scores into a single 0-100 score.
+ * Weights are renormalized over the analyzers that produced a usable signal,
+ * e.g. 20/20/30/30 becomes ~29/29/43 when no fact-checks are found.
+ */
+function weighScores(
+  entries: Omit<AnalyzerScore, 'weight'>[],
+  weightOf: (id: string) => number
+): { score: number; analyzerScores: AnalyzerScore[] } {
+  const weights = normalizeWeights(
+    entries.filter(e => e.available).map(e => ({ id: e.id, weight: weightOf(e.id) }))
+  );
+  const analyzerScores = entries.map(e => ({ ...e, weight: weights[e.id] ?? 0 }));
+  const score = analyzerScores.some(s => s.available)
+    ? analyzerScores.reduce((sum, s) => sum + s.score * s.weight, 0)
+    : 50; // Neutral when no analyzer produced a signal
+  return { score, analyzerScores };
+}
+
+/**
+ * Map a final score onto a verdict and confidence
+ */
+export function determineVerdict(
+  score: number,
+  thresholds: VerdictThresholds = DEFAULT_SCORING_CONFIG.thresholds
+): { verdict: Verdict; confidence: number } {
+  let verdict: Verdict;
+  if (score >= thresholds.fake) {
+    verdict = 'fake';
+  } else if (score <= thresholds.verified) {
+    verdict = 'verified';
+  } else {
+    verdict = 'uncertain';
+  }
+  return {
+    verdict,
+    confidence: verdict === 'uncertain' ? 50 : Math.min(100, Math.round(Math.abs(50 - score) * 2)),
+  };
+}
+
+/**
+ * Recompute a result's score and verdict under a different scoring config
+ * without re-running the analyzers (used for previews)
+ */
+export function rescoreResult(
+  result: AnalysisResult,
+  scoring: Partial<ScoringConfig>,
+  analyzers: Analyzer[] = defaultAnalyzerRegistry.list()
+): { score: number; verdict: Verdict; confidence: number } | null {
+  if (!result.analyzerScores) return null;
+  const config = resolveScoringConfig(scoring);
+  // Stored weights are normalized, so fall back to the analyzer's raw weight
+  const { score } = weighScores(result.analyzerScores, id =>
+    config.weights[id] ?? analyzers.find(a => a.id === id)?.weight ?? 0
+  );
+  const clamped = Math.max(0, Math.min(100, score));
+  return { score: Math.round(clamped), ...determineVerdict(clamped, config.thresholds) };
+}
+
+/**
+ * Run the full analysis pipeline over a piece of text
+ */
+export async function analyzeText(text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const { factCheck = true, deterministic = false } = options;
+  const analyzers = (options.analyzers ?? defaultAnalyzerRegistry.list())
+    .filter(analyzer => factCheck || analyzer.id !== 'factCheck');
+
+  const context: AnalyzerContext = {
+    lexicon: options.lexicon,
+    reputation: options.reputation,
+    sourceUrl: options.sourceUrl ?? options.article?.canonicalUrl,
+    signal: options.signal,
+  };
+  options.signal?.throwIfAborted();
+  const outputs = await Promise.all(analyzers.map(analyzer => runAnalyzer(analyzer, text, context)));
+  // Analyzers interrupted by the cancellation only look unavailable
+  options.signal?.throwIfAborted();
+
+  // Collect reasons in analyzer order, skipping duplicates
+  const reasons: string[] = [];
+  outputs.forEach(output => {
+    output?.reasons.forEach(reason => {
+      if (!reasons.includes(reason)) {
+        reasons.push(reason);
+      }
+    });
+  });
+
+  // === Weighted Score Calculation ===
+  const config = resolveScoringConfig(options.scoring);
+  const weighed = weighScores(
+    analyzers.map((analyzer, index) => ({
+      id: analyzer.id,
+      label: analyzer.label,
+      score: outputs[index]?.score ?? 50,
+      available: Boolean(outputs[index]?.available),
+    })),
+    id => config.weights[id] ?? analyzers.find(a => a.id === id)?.weight ?? 0
+  );
+  const analyzerScores = weighed.analyzerScores;
+  let finalScore = weighed.score;
+
+  // Add some small randomness for demo purposes (seeded when reproducibility is needed)
+  if (!deterministic) {
+    const random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+    finalScore += random() * 10 - 5;
+  }
+
+  // Clamp final score
+  finalScore = Math.max(0, Math.min(100, finalScore));
+
+  // Determine verdict
+  const { verdict, confidence } = determineVerdict(finalScore, config.thresholds);
+  if (verdict === 'fake') {
+    if (reasons.length === 0) {
+      reasons.push('Multiple indicators suggest unreliable content');
+    }
+  } else if (verdict === 'verified') {
+    if (reasons.filter(r => !r.includes('positive')).length === 0) {
+      reasons.push('Content appears to follow journalistic standards');
+    }
+  } else {
+    reasons.push('Unable to determine authenticity with high confidence');
+  }
+
+  const detailsOf = <T>(id: string) => outputs[analyzers.findIndex(a => a.id === id)]?.details as T | undefined;
+
+  return {
+    id: options.id ?? crypto.randomUUID(),
+    text,
+    verdict,
+    confidence,
+    reasons,
+    timestamp: options.timestamp ?? new Date(),
+    // Include enhanced analysis results
+    emotionalAnalysis: detailsOf<EmotionalAnalysisResult>('emotional'),
+    sourceCredibility: detailsOf<SourceCredibilityResult>('source'),
+    factCheckResults: detailsOf<FactCheckResult>('factCheck'),
+    article: options.article,
+    score: Math.round(finalScore),
+    analyzerScores,
+    evidence: outputs.flatMap((output, index) =>
+      (output?.evidence ?? []).map(e => ({ ...e, analyzerId: analyzers[index].id }))
+    )
+  };
+}
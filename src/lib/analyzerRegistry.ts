@@ -0,0 +1,58 @@
+/**
+ * Analyzer Registry
+ * Common interface for analysis steps and an ordered registry to compose them
+ */
+
+import { EmotionalLexicon } from '@/lib/emotionalAnalysis';
+import { ReputationIndex } from '@/lib/reputationLists';
+import { createRegistry, Registry } from '@/lib/registry';
+
+export interface AnalyzerEvidence {
+  type: string; // e.g. 'sensationalism', 'domain', 'claim'
+  match: string;
+  description?: string;
+  start?: number; // Character offsets into the analyzed text, when locatable
+  end?: number;
+}
+
+export interface AnalyzerOutput<TDetails = unknown> {
+  score: number; // 0-100, higher = more fake indicators
+  reasons: string[];
+  evidence: AnalyzerEvidence[];
+  available: boolean; // false = no usable signal, excluded from weighting
+  details?: TDetails;
+}
+
+// Per-run inputs shared with every analyzer
+export interface AnalyzerContext {
+  lexicon?: EmotionalLexicon;
+  reputation?: ReputationIndex; // Domain reputations, built-in list when unset
+  sourceUrl?: string; // Page the text was published on, if known
+  signal?: AbortSignal; // Aborted when the caller cancels the analysis
+}
+
+export interface Analyzer<TDetails = unknown> {
+  id: string;
+  label: string;
+  weight: number; // Relative weight, renormalized across available analyzers
+  isAvailable?: () => boolean;
+  analyze: (text: string, context: AnalyzerContext) => Promise<AnalyzerOutput<TDetails>>;
+}
+
+export type AnalyzerRegistry = Registry<Analyzer>;
+
+export function createAnalyzerRegistry(initial: Analyzer[] = []): AnalyzerRegistry {
+  return createRegistry(initial);
+}
+
+/**
+ * Renormalize weights so they sum to 1 (equal split if all weights are zero)
+ */
+export function normalizeWeights(entries: { id: string; weight: number }[]): Record<string, number> {
+  const total = entries.reduce((sum, e) => sum + Math.max(0, e.weight), 0);
+  const normalized: Record<string, number> = {};
+  entries.forEach(e => {
+    normalized[e.id] = total > 0 ? Math.max(0, e.weight) / total : 1 / entries.length;
+  });
+  return normalized;
+}
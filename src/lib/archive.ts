@@ -0,0 +1,374 @@
+/**
+ * Archive Module
+ * IndexedDB-backed store of past analysis results with paging, search and
+ * filters, tags and notes, versioned records and a one-time migration from
+ * the old localStorage history
+ */
+
+import { AnalysisResult, Verdict } from '@/lib/analysisEngine';
+import { domainFromUrl } from '@/lib/sourceCredibility';
+import { toAnalysisResult } from '@/lib/resultSchema';
+import { createDatabaseOpener, isQuotaExceeded, requestToPromise, transactionDone } from '@/lib/indexedDb';
+
+const DB_NAME = 'veritasArchive';
+const DB_VERSION = 1;
+const STORE = 'results';
+const LEGACY_HISTORY_KEY = 'newsCheckHistory';
+
+// Version of the stored record layout, independent of the database version
+export const ARCHIVE_RECORD_VERSION = 1;
+
+interface ArchiveRecord {
+  id: string;
+  timestamp: number; // Indexed copy of result.timestamp
+  version: number;
+  result: AnalysisResult;
+}
+
+export interface ArchivePage {
+  items: AnalysisResult[];
+  total: number;
+  skipped: number; // Unreadable records passed over while reading
+}
+
+export interface ArchiveQuery {
+  search?: string;
+  verdicts?: Verdict[];
+  minConfidence?: number;
+  maxConfidence?: number;
+  from?: string; // Inclusive local dates, yyyy-mm-dd
+  to?: string;
+  domain?: string;
+  emotion?: string;
+  tag?: string;
+}
+
+export interface ArchiveFacets {
+  domains: string[];
+  emotions: string[];
+  tags: string[];
+}
+
+export type ArchiveAnnotations = Pick<AnalysisResult, 'tags' | 'notes'>;
+
+export interface ArchiveUsage {
+  usage: number;
+  quota: number;
+}
+
+// Upgrades keyed by the record version they start from
+const RECORD_MIGRATIONS: Record<number, (record: ArchiveRecord) => ArchiveRecord> = {};
+
+function toRecord(result: AnalysisResult): ArchiveRecord {
+  return {
+    id: result.id,
+    timestamp: result.timestamp.getTime(),
+    version: ARCHIVE_RECORD_VERSION,
+    result,
+  };
+}
+
+function readRecord(value: unknown): AnalysisResult | null {
+  if (!value || typeof value !== 'object') return null;
+  let record = value as ArchiveRecord;
+  if (typeof record.version !== 'number' || record.version > ARCHIVE_RECORD_VERSION) return null;
+
+  while (record.version < ARCHIVE_RECORD_VERSION) {
+    const migrate = RECORD_MIGRATIONS[record.version];
+    if (!migrate) return null;
+    record = migrate(record);
+  }
+  return toAnalysisResult(record.result);
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Domains a result refers to, including the page it was fetched from
+ */
+export function resultDomains(result: AnalysisResult): string[] {
+  const domains = new Set(result.sourceCredibility?.foundSources.map(source => source.domain) ?? []);
+  const publisher = result.article && domainFromUrl(result.article.canonicalUrl);
+  if (publisher) domains.add(publisher);
+  return [...domains];
+}
+
+export function hasFilters(query: ArchiveQuery): boolean {
+  return Object.values(query).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+  );
+}
+
+export function matchesQuery(result: AnalysisResult, query: ArchiveQuery): boolean {
+  if (query.verdicts?.length && !query.verdicts.includes(result.verdict)) return false;
+  if (query.minConfidence !== undefined && result.confidence < query.minConfidence) return false;
+  if (query.maxConfidence !== undefined && result.confidence > query.maxConfidence) return false;
+
+  const time = result.timestamp.getTime();
+  if (query.from && time < new Date(`${query.from}T00:00:00`).getTime()) return false;
+  if (query.to && time > new Date(`${query.to}T23:59:59.999`).getTime()) return false;
+
+  if (query.domain && !resultDomains(result).includes(query.domain)) return false;
+  if (query.emotion && result.emotionalAnalysis?.dominantEmotion !== query.emotion) return false;
+  if (query.tag && !result.tags?.includes(query.tag)) return false;
+
+  const terms = query.search?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (terms.length > 0) {
+    const haystack = [
+      result.text,
+      result.article?.title,
+      result.notes,
+      ...result.reasons,
+      ...(result.tags ?? []),
+    ].filter(Boolean).join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  return true;
+}
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  }
+}
+
+/**
+ * Copy entries from the old 10-item localStorage history, then drop the key
+ */
+async function migrateLegacyHistory(db: IDBDatabase) {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (saved === null) return;
+
+  let entries: unknown[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (Array.isArray(parsed)) entries = parsed;
+  } catch (error) {
+    console.error('Discarding unreadable saved history:', error);
+  }
+
+  const results = entries.map(toAnalysisResult).filter((r): r is AnalysisResult => r !== null);
+  if (results.length > 0) {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    results.forEach(result => store.put(toRecord(result)));
+    await transactionDone(transaction);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+const getDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, upgradeDatabase, migrateLegacyHistory);
+
+/**
+ * Delete the oldest entries to free space
+ */
+async function pruneOldest(db: IDBDatabase, count: number): Promise<number> {
+  const transaction = db.transaction(STORE, 'readwrite');
+  const index = transaction.objectStore(STORE).index('timestamp');
+  let removed = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || removed >= count) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  await transactionDone(transaction);
+  return removed;
+}
+
+/**
+ * Store a result, evicting the oldest entries when the storage quota is full
+ */
+export async function addToArchive(result: AnalysisResult): Promise<void> {
+  const db = await getDatabase();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const transaction = db.transaction(STORE, 'readwrite');
+      transaction.objectStore(STORE).put(toRecord(result));
+      await transactionDone(transaction);
+      return;
+    } catch (error) {
+      if (!isQuotaExceeded(error) || attempt >= 3) throw error;
+      const total = await requestToPromise(db.transaction(STORE).objectStore(STORE).count());
+      // Free roughly a tenth of the archive per attempt
+      const removed = await pruneOldest(db, Math.max(1, Math.ceil(total / 10)));
+      if (removed === 0) throw error;
+    }
+  }
+}
+
+/**
+ * Visit every record, newest first
+ */
+async function scanArchive(visit: (result: AnalysisResult | null) => void): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE);
+
+  await new Promise<void>((resolve, reject) => {
+    const request = transaction.objectStore(STORE).index('timestamp').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      visit(readRecord(cursor.value));
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Read one page of results, newest first; with a query, the archive is
+ * scanned and `total` counts matching entries only
+ */
+export async function listArchive(offset: number, limit: number, query: ArchiveQuery = {}): Promise<ArchivePage> {
+  if (hasFilters(query)) {
+    const items: AnalysisResult[] = [];
+    let total = 0;
+    let skipped = 0;
+    await scanArchive(result => {
+      if (!result) {
+        skipped++;
+        return;
+      }
+      if (!matchesQuery(result, query)) return;
+      if (total >= offset && items.length < limit) items.push(result);
+      total++;
+    });
+    return { items, total, skipped };
+  }
+
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE);
+  const store = transaction.objectStore(STORE);
+  const total = await requestToPromise(store.count());
+  const items: AnalysisResult[] = [];
+  let skipped = 0;
+
+  // Pages hold `limit` readable results, so unreadable records are read past
+  // rather than jumped over with cursor.advance(), which could not tell them apart
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index('timestamp').openCursor(null, 'prev');
+    let readable = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || items.length >= limit) {
+        resolve();
+        return;
+      }
+      const result = readRecord(cursor.value);
+      if (!result) {
+        skipped++;
+      } else if (readable++ >= offset) {
+        items.push(result);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  // Unreadable records seen so far no longer count toward the pages
+  return { items, total: total - skipped, skipped };
+}
+
+export async function getArchiveEntry(id: string): Promise<AnalysisResult | null> {
+  const db = await getDatabase();
+  return readRecord(await requestToPromise(db.transaction(STORE).objectStore(STORE).get(id)));
+}
+
+export const EMPTY_FACETS: ArchiveFacets = { domains: [], emotions: [], tags: [] };
+
+/**
+ * Add the filter values of the given results to a facet set
+ */
+export function mergeFacets(facets: ArchiveFacets, results: AnalysisResult[]): ArchiveFacets {
+  const domains = new Set(facets.domains);
+  const emotions = new Set(facets.emotions);
+  const tags = new Set(facets.tags);
+
+  results.forEach(result => {
+    resultDomains(result).forEach(domain => domains.add(domain));
+    if (result.emotionalAnalysis?.dominantEmotion) emotions.add(result.emotionalAnalysis.dominantEmotion);
+    result.tags?.forEach(tag => tags.add(tag));
+  });
+
+  const sorted = (values: Set<string>) => [...values].sort((a, b) => a.localeCompare(b));
+  return { domains: sorted(domains), emotions: sorted(emotions), tags: sorted(tags) };
+}
+
+/**
+ * Values present in the archive, for filter pickers; this reads every
+ * record, so callers load it once and extend it with mergeFacets
+ */
+export async function getArchiveFacets(): Promise<ArchiveFacets> {
+  const results: AnalysisResult[] = [];
+  await scanArchive(result => {
+    if (result) results.push(result);
+  });
+  return mergeFacets(EMPTY_FACETS, results);
+}
+
+/**
+ * Replace the tags and notes of an archived result
+ * @throws Error when the entry no longer exists or cannot be read
+ */
+export async function annotateArchiveEntry(id: string, annotations: ArchiveAnnotations): Promise<AnalysisResult> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const existing = readRecord(await requestToPromise(store.get(id)));
+  if (!existing) {
+    transaction.abort();
+    throw new Error('This story is no longer in the archive');
+  }
+
+  const tags = [...new Set((annotations.tags ?? []).map(normalizeTag).filter(Boolean))];
+  const notes = annotations.notes?.trim();
+  const updated: AnalysisResult = {
+    ...existing,
+    tags: tags.length > 0 ? tags : undefined,
+    notes: notes || undefined,
+  };
+  store.put(toRecord(updated));
+  await transactionDone(transaction);
+  return updated;
+}
+
+export async function removeFromArchive(id: string): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function clearArchive(): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * Storage used by this origin, when the browser reports it
+ */
+export async function estimateArchiveUsage(): Promise<ArchiveUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
@@ -0,0 +1,213 @@
+/**
+ * Article Extractor
+ * Readability-style extraction of headline, byline, publish date and main
+ * body text from a parsed HTML document
+ */
+
+import { parseHost } from '@/lib/domainParser';
+
+export interface ArticleMetadata {
+  url: string; // URL that was requested
+  canonicalUrl: string;
+  title: string;
+  byline?: string;
+  publishedAt?: string; // ISO date string when parseable
+  siteName?: string;
+}
+
+export interface ExtractedArticle extends ArticleMetadata {
+  text: string; // Main body, paragraphs separated by blank lines
+}
+
+// Elements that never hold article prose
+const NOISE_SELECTOR = 'script, style, noscript, iframe, svg, nav, header, footer, aside, form, button, figure figcaption';
+const NOISE_HINT = /comment|share|social|related|promo|sidebar|newsletter|subscribe|advert|cookie|footer|menu/i;
+const BLOCK_SELECTOR = 'p, h2, h3, li, blockquote';
+const MIN_PARAGRAPH_LENGTH = 25;
+
+function meta(doc: Document, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const el = doc.querySelector(`meta[property="${key}"], meta[name="${key}"], meta[itemprop="${key}"]`);
+    const content = el?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Read schema.org NewsArticle/Article data from JSON-LD blocks
+ */
+function readJsonLd(doc: Document): Record<string, unknown> | undefined {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent ?? '');
+      const nodes: unknown[] = Array.isArray(data) ? data : data['@graph'] ?? [data];
+      const article = nodes.find((node): node is Record<string, unknown> => {
+        const type = (node as Record<string, unknown>)?.['@type'];
+        const types = Array.isArray(type) ? type : [type];
+        return types.some(t => typeof t === 'string' && /Article|NewsArticle|Report|BlogPosting/.test(t));
+      });
+      if (article) return article;
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return undefined;
+}
+
+function jsonLdAuthor(article: Record<string, unknown> | undefined): string | undefined {
+  const author = article?.author;
+  const authors = Array.isArray(author) ? author : author ? [author] : [];
+  const names = authors
+    .map(a => (typeof a === 'string' ? a : (a as Record<string, unknown>)?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Absolute http(s) URL of a link; other schemes such as javascript: are dropped
+ */
+function resolveUrl(href: string | null | undefined, base: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function siteOf(url: string): string | undefined {
+  const host = parseHost(url);
+  return host && (host.registrableDomain ?? host.hostname);
+}
+
+/**
+ * The page's declared canonical URL, accepted only on the site it was
+ * fetched from; the canonical URL picks the publisher that gets scored, so
+ * a page cannot claim to be another outlet
+ */
+function canonicalOf(doc: Document, url: string): string {
+  const site = siteOf(url);
+  const candidates = [doc.querySelector('link[rel="canonical"]')?.getAttribute('href'), meta(doc, 'og:url')];
+  for (const candidate of candidates) {
+    const resolved = resolveUrl(candidate, url);
+    if (resolved && site && siteOf(resolved) === site) return resolved;
+  }
+  return url;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function linkDensity(el: Element): number {
+  const textLength = normalizeWhitespace(el.textContent ?? '').length || 1;
+  const linkLength = Array.from(el.querySelectorAll('a'))
+    .reduce((sum, a) => sum + normalizeWhitespace(a.textContent ?? '').length, 0);
+  return linkLength / textLength;
+}
+
+/**
+ * Score paragraph containers and return the most likely article body
+ */
+function findContentRoot(doc: Document): Element | null {
+  const article = doc.querySelector('article, [itemprop="articleBody"], main');
+  const scope = article ?? doc.body;
+  if (!scope) return null;
+
+  const scores = new Map<Element, number>();
+  for (const p of Array.from(scope.querySelectorAll('p'))) {
+    const text = normalizeWhitespace(p.textContent ?? '');
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    // More prose and more commas suggest real paragraphs rather than UI text
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    const parent = p.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best ?? scope;
+}
+
+function extractBody(root: Element): string {
+  // Skip nested blocks (e.g. <p> inside <li>) so text isn't repeated
+  const isNested = (el: Element) => {
+    const outer = el.parentElement?.closest(BLOCK_SELECTOR);
+    return Boolean(outer && root.contains(outer));
+  };
+
+  const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTOR))
+    .filter(el => !isNested(el))
+    .map(el => normalizeWhitespace(el.textContent ?? ''))
+    .filter(text => text.length >= MIN_PARAGRAPH_LENGTH || /^[A-Z].*[.!?"]$/.test(text));
+
+  return blocks.length > 0 ? blocks.join('\n\n') : normalizeWhitespace(root.textContent ?? '');
+}
+
+/**
+ * Extract the article from a parsed document fetched from `url`
+ */
+export function extractArticle(doc: Document, url: string): ExtractedArticle {
+  const jsonLd = readJsonLd(doc);
+
+  const title =
+    meta(doc, 'og:title', 'twitter:title') ||
+    (typeof jsonLd?.headline === 'string' ? jsonLd.headline : '') ||
+    normalizeWhitespace(doc.querySelector('h1')?.textContent ?? '') ||
+    normalizeWhitespace(doc.title);
+
+  const byline =
+    meta(doc, 'author', 'article:author', 'byl', 'parsely-author') ??
+    jsonLdAuthor(jsonLd) ??
+    (normalizeWhitespace(doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent ?? '') || undefined);
+
+  const publishedAt = toIsoDate(
+    meta(doc, 'article:published_time', 'datePublished', 'pubdate', 'date', 'dc.date') ??
+    (typeof jsonLd?.datePublished === 'string' ? jsonLd.datePublished : undefined) ??
+    doc.querySelector('time[datetime]')?.getAttribute('datetime') ??
+    undefined
+  );
+
+  const canonicalUrl = canonicalOf(doc, url);
+
+  // Strip obvious chrome before scoring (metadata above may live in <header>)
+  doc.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+  doc.querySelectorAll('[class], [id]').forEach(el => {
+    const hint = `${el.getAttribute('class') ?? ''} ${el.getAttribute('id') ?? ''}`;
+    if (NOISE_HINT.test(hint) && !el.matches('article, main, body')) el.remove();
+  });
+
+  const root = findContentRoot(doc);
+  let text = root ? extractBody(root) : '';
+  if (text.length < 200 && typeof jsonLd?.articleBody === 'string') {
+    text = normalizeWhitespace(jsonLd.articleBody);
+  }
+
+  return {
+    url,
+    canonicalUrl,
+    title: title || new URL(url).hostname,
+    byline,
+    publishedAt,
+    siteName: meta(doc, 'og:site_name', 'application-name'),
+    text,
+  };
+}
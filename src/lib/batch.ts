@@ -0,0 +1,216 @@
+/**
+ * Batch Analysis Module
+ * Parses CSV/JSONL uploads into rows, runs the analysis engine over them and
+ * serializes the results back to CSV/JSON
+ */
+
+import { analyzeText, AnalysisResult, AnalyzeOptions } from '@/lib/analysisEngine';
+import { findColumn, parseCsv } from '@/lib/csv';
+
+export interface BatchRow {
+  id: string;
+  text: string;
+  url?: string;
+}
+
+export interface BatchResult {
+  row: BatchRow;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+}
+
+const TEXT_COLUMNS = ['text', 'content', 'body', 'message', 'post', 'article', 'headline', 'title'];
+const ID_COLUMNS = ['id', 'post_id', 'postid', 'guid', 'key'];
+const URL_COLUMNS = ['url', 'link', 'source', 'permalink'];
+
+function toRow(index: number, text: unknown, id?: unknown, url?: unknown): BatchRow | null {
+  if (typeof text !== 'string' || text.trim().length === 0) return null;
+  return {
+    id: id !== undefined && id !== null && String(id).trim() ? String(id).trim() : String(index + 1),
+    text: text.trim(),
+    url: typeof url === 'string' && url.trim() ? url.trim() : undefined,
+  };
+}
+
+/**
+ * Read rows from a CSV file with a header line
+ * @throws Error when no text column can be found
+ */
+export function parseCsvRows(input: string): BatchRow[] {
+  const [headers, ...records] = parseCsv(input);
+  if (!headers) return [];
+
+  let textIndex = findColumn(headers, TEXT_COLUMNS);
+  if (textIndex === -1) {
+    if (headers.length > 1) {
+      throw new Error(`No text column found; expected one of: ${TEXT_COLUMNS.join(', ')}`);
+    }
+    // A single unnamed column is treated as text, including its first line
+    textIndex = 0;
+    records.unshift(headers);
+  }
+  const idIndex = findColumn(headers, ID_COLUMNS);
+  const urlIndex = findColumn(headers, URL_COLUMNS);
+
+  return records
+    .map((record, index) => toRow(index, record[textIndex], record[idIndex], record[urlIndex]))
+    .filter((row): row is BatchRow => row !== null);
+}
+
+function recordToRow(index: number, record: unknown): BatchRow | null {
+  if (typeof record === 'string') {
+    return toRow(index, record);
+  }
+  if (record && typeof record === 'object') {
+    const fields = record as Record<string, unknown>;
+    const key = (candidates: string[]) => candidates.find(c => fields[c] !== undefined);
+    return toRow(index, fields[key(TEXT_COLUMNS)], fields[key(ID_COLUMNS)], fields[key(URL_COLUMNS)]);
+  }
+  return null;
+}
+
+/**
+ * Read rows from JSON Lines (or a JSON array); each record is an object or a bare string
+ * @throws Error naming the first malformed line
+ */
+export function parseJsonlRows(input: string): BatchRow[] {
+  if (input.trimStart().startsWith('[')) {
+    let records: unknown;
+    try {
+      records = JSON.parse(input);
+    } catch {
+      throw new Error('File is not a valid JSON array');
+    }
+    return (records as unknown[])
+      .map((record, index) => recordToRow(index, record))
+      .filter((row): row is BatchRow => row !== null);
+  }
+
+  const rows: BatchRow[] = [];
+  input.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${lineIndex + 1} is not valid JSON`);
+    }
+    const row = recordToRow(rows.length, record);
+    if (row) rows.push(row);
+  });
+  return rows;
+}
+
+/**
+ * Parse an uploaded file by extension (falls back to sniffing the content)
+ */
+export function parseBatchFile(name: string, content: string): BatchRow[] {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.jsonl') || lower.endsWith('.ndjson') || lower.endsWith('.json')) {
+    return parseJsonlRows(content);
+  }
+  if (lower.endsWith('.csv')) {
+    return parseCsvRows(content);
+  }
+  return /^\s*[[{]/.test(content) ? parseJsonlRows(content) : parseCsvRows(content);
+}
+
+/**
+ * Analyze rows one after another, reporting progress and stopping when the
+ * signal is aborted (results gathered so far are returned)
+ */
+export async function runBatch(
+  rows: BatchRow[],
+  options: {
+    analyzeOptions?: AnalyzeOptions;
+    signal?: AbortSignal;
+    onProgress?: (progress: BatchProgress, latest: BatchResult) => void;
+  } = {}
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+
+  for (const row of rows) {
+    if (options.signal?.aborted) break;
+
+    let entry: BatchResult;
+    try {
+      const result = await analyzeText(row.text, {
+        ...options.analyzeOptions,
+        sourceUrl: row.url,
+        deterministic: true,
+        signal: options.signal,
+      });
+      entry = { row, result };
+    } catch (error) {
+      if (options.signal?.aborted) break;
+      entry = { row, error: error instanceof Error ? error.message : 'Analysis failed' };
+    }
+
+    results.push(entry);
+    options.onProgress?.({ completed: results.length, total: rows.length }, entry);
+
+    // Yield so the UI can repaint between rows
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return results;
+}
+
+/**
+ * Sub-score of one analyzer, if it produced a usable signal
+ */
+export function subScore(result: AnalysisResult | undefined, analyzerId: string): number | undefined {
+  const entry = result?.analyzerScores?.find(s => s.id === analyzerId);
+  return entry?.available ? entry.score : undefined;
+}
+
+const EXPORT_ANALYZERS = ['heuristic', 'emotional', 'source', 'factCheck'];
+
+// Leading characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Prefix user text with ' so a cell such as "=HYPERLINK(...)" is not run as a formula
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function batchResultsToCsv(results: BatchResult[]): string {
+  const headers = ['id', 'url', 'text', 'verdict', 'confidence', 'score', ...EXPORT_ANALYZERS.map(id => `${id}_score`), 'reasons', 'error'];
+  const lines = results.map(({ row, result, error }) => [
+    row.id,
+    row.url,
+    row.text,
+    result?.verdict,
+    result?.confidence,
+    result?.score,
+    ...EXPORT_ANALYZERS.map(id => subScore(result, id)),
+    result?.reasons.join(' | '),
+    error,
+  ].map(csvField).join(','));
+  return [headers.join(','), ...lines].join('\r\n');
+}
+
+export function batchResultsToJson(results: BatchResult[]): string {
+  return JSON.stringify(
+    results.map(({ row, result, error }) => ({
+      id: row.id,
+      url: row.url,
+      text: row.text,
+      verdict: result?.verdict,
+      confidence: result?.confidence,
+      score: result?.score,
+      subScores: Object.fromEntries(EXPORT_ANALYZERS.map(id => [id, subScore(result, id) ?? null])),
+      reasons: result?.reasons,
+      error,
+    })),
+    null,
+    2
+  );
+}
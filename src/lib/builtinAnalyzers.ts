@@ -0,0 +1,131 @@
+/**
+ * Built-in Analyzers
+ * Adapts the heuristic, emotional, source and fact-check modules to the
+ * common Analyzer interface and registers them in the default order
+ */
+
+import { Analyzer, AnalyzerEvidence, createAnalyzerRegistry } from '@/lib/analyzerRegistry';
+import { TextSpan } from '@/lib/textSpans';
+import { analyzeHeuristics, HeuristicAnalysisResult } from '@/lib/heuristicAnalysis';
+import { analyzeEmotionalContent, EmotionalAnalysisResult } from '@/lib/emotionalAnalysis';
+import { analyzeSourceCredibility, SourceCredibilityResult } from '@/lib/sourceCredibility';
+import { findShortLinks } from '@/lib/urlShorteners';
+import { checkFacts, calculateFactCheckScore, FactCheckResult, isFactCheckApiAvailable } from '@/services/factCheckApi';
+import { expandShortLinks } from '@/services/urlExpander';
+
+function spanEvidence(type: string, spans: TextSpan[], description?: string): AnalyzerEvidence[] {
+  return spans.map(span => ({ type, match: span.text, description, start: span.start, end: span.end }));
+}
+
+/**
+ * Turn a trigger category label into an evidence type, e.g. 'Excessive Punctuation' -> 'excessive-punctuation'
+ */
+function toEvidenceType(category: string): string {
+  return category.toLowerCase().replace(/\s+/g, '-');
+}
+
+export const heuristicAnalyzer: Analyzer<HeuristicAnalysisResult> = {
+  id: 'heuristic',
+  label: 'Heuristics',
+  weight: 20,
+  analyze: async (text) => {
+    const result = analyzeHeuristics(text);
+    return {
+      score: result.score,
+      reasons: result.reasons,
+      evidence: [
+        ...spanEvidence('sensationalism', result.sensationalistSpans, 'Sensationalist wording often used in misleading headlines'),
+        ...spanEvidence('attribution', result.credibilitySpans, 'Source attribution (positive indicator)'),
+      ],
+      available: true,
+      details: result,
+    };
+  },
+};
+
+export const emotionalAnalyzer: Analyzer<EmotionalAnalysisResult> = {
+  id: 'emotional',
+  label: 'Emotional Analysis',
+  weight: 20,
+  analyze: async (text, { lexicon }) => {
+    const result = analyzeEmotionalContent(text, lexicon);
+    const reasons: string[] = [];
+    if (result.triggers.length > 0 && result.manipulationLevel !== 'low') {
+      reasons.push(`Emotional manipulation detected (${result.manipulationLevel} level)`);
+    }
+    return {
+      score: result.score,
+      reasons,
+      evidence: result.triggers.flatMap(trigger =>
+        spanEvidence(
+          toEvidenceType(trigger.category),
+          trigger.spans ?? [],
+          `${trigger.category} trigger (intensity ${trigger.intensity}%)`
+        )
+      ),
+      available: true,
+      details: result,
+    };
+  },
+};
+
+export const sourceAnalyzer: Analyzer<SourceCredibilityResult> = {
+  id: 'source',
+  label: 'Source Credibility',
+  weight: 30,
+  analyze: async (text, { sourceUrl, reputation, signal }) => {
+    const expansions = await expandShortLinks(findShortLinks(text).map(link => link.url), signal);
+    const result = analyzeSourceCredibility(text, sourceUrl, { expansions, reputation });
+    return {
+      score: result.score,
+      reasons: result.factors,
+      evidence: result.foundSources.flatMap(source =>
+        spanEvidence('domain', source.spans ?? [], `${source.domain}: ${source.reputation} source (${source.category})`)
+      ),
+      available: true,
+      details: result,
+    };
+  },
+};
+
+export const factCheckAnalyzer: Analyzer<FactCheckResult> = {
+  id: 'factCheck',
+  label: 'External Fact Checks',
+  weight: 30,
+  isAvailable: isFactCheckApiAvailable,
+  analyze: async (text, context) => {
+    const result = await checkFacts(text, undefined, context.signal);
+    const reasons: string[] = [];
+    if (result.claims.length > 0) {
+      const topClaim = result.claims[0];
+      reasons.push(`Related claim fact-checked by ${topClaim.publisher}: "${topClaim.rating}"`);
+    }
+    return {
+      score: calculateFactCheckScore(result),
+      reasons,
+      // Each fact-check points at the sentence it was found for
+      evidence: (result.checkedClaims ?? []).flatMap(checked =>
+        checked.claims.map(claim => ({
+          type: 'claim',
+          match: claim.text,
+          description: `${claim.publisher} rated a related claim "${claim.rating}"`
+            + (claim.similarity !== undefined ? ` (${Math.round(claim.similarity * 100)}% similar)` : ''),
+          start: checked.start,
+          end: checked.end,
+        }))
+      ),
+      // Only contributes to the score when related claims were found
+      available: result.claims.length > 0,
+      details: result,
+    };
+  },
+};
+
+export const BUILTIN_ANALYZERS: Analyzer[] = [
+  heuristicAnalyzer,
+  emotionalAnalyzer,
+  sourceAnalyzer,
+  factCheckAnalyzer,
+];
+
+export const defaultAnalyzerRegistry = createAnalyzerRegistry(BUILTIN_ANALYZERS);
@@ -0,0 +1,142 @@
+/**
+ * Claim Extraction Module
+ * Splits text into sentences and picks the check-worthy ones - statements
+ * with figures, named people or organizations, or causal assertions - so
+ * each can be fact-checked on its own
+ */
+
+import { TextSpan } from '@/lib/textSpans';
+
+export type ClaimSignal = 'number' | 'entity' | 'causal' | 'comparison' | 'reporting';
+
+export interface ExtractedClaim extends TextSpan {
+  score: number;
+  signals: ClaimSignal[];
+}
+
+export interface ClaimExtractionOptions {
+  maxClaims?: number;
+  minScore?: number;
+}
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'gen', 'gov', 'sen', 'rep', 'lt', 'col', 'sgt',
+  'inc', 'ltd', 'co', 'corp', 'vs', 'etc', 'no', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug',
+  'sep', 'sept', 'oct', 'nov', 'dec', 'e.g', 'i.e', 'u.s', 'u.k', 'u.n', 'a.m', 'p.m',
+]);
+
+const NUMBER_PATTERN = /\b\d[\d,.]*\s*(?:%|percent|per cent|million|billion|trillion|thousand)?|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|hundred|thousand|million|billion|half|double|triple)\b/i;
+const CAUSAL_PATTERN = /\b(?:because|caus(?:e|es|ed|ing)|due to|leads? to|led to|result(?:s|ed)? in|linked to|responsible for|blam(?:e|es|ed|ing)|triggers?|triggered|prevents?|prevented|cures?|cured|kills?|killed)\b/i;
+const COMPARISON_PATTERN = /\b(?:more than|less than|fewer than|over|under|highest|lowest|largest|smallest|record|most|least|doubled|tripled|increased|decreased|rose|fell|dropped)\b/i;
+const REPORTING_PATTERN = /\b(?:announced|confirmed|reported|revealed|found|showed|shows|admitted|claimed|stated|according to|study|studies|data|survey|poll)\b/i;
+const OPINION_PATTERN = /\b(?:i think|i believe|we believe|in my opinion|i feel|seems to me|should|must|ought to)\b/i;
+
+/**
+ * Sentence spans with character offsets into the original text
+ */
+export function splitSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      sentences.push({ start: start + leading, end: start + leading + trimmed.length, text: trimmed });
+    }
+    start = end;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n' && text[i + 1] === '\n') {
+      push(i);
+      continue;
+    }
+    if (char !== '.' && char !== '!' && char !== '?') continue;
+
+    // Swallow runs like "?!" and closing quotes/brackets
+    let end = i + 1;
+    while (end < text.length && /[.!?"'”’)\]]/.test(text[end])) end++;
+    if (end < text.length && !/\s/.test(text[end])) continue; // 3.5, example.com
+
+    if (char === '.') {
+      const word = text.slice(start, i).match(/([\p{L}.]+)$/u)?.[1]?.toLowerCase();
+      if (word && (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word))) continue;
+    }
+    push(end);
+    i = end - 1;
+  }
+  push(text.length);
+
+  return sentences;
+}
+
+function countEntities(sentence: string): number {
+  // Capitalized words after the first word, grouped so "World Health Organization" counts once
+  const words = sentence.split(/\s+/).slice(1);
+  let entities = 0;
+  let inEntity = false;
+  for (const word of words) {
+    const capitalized = /^["'“(]?[\p{Lu}][\p{L}'’.-]*/u.test(word) && !/^[\p{Lu}]+[!?.]*$/u.test(word);
+    if (capitalized && !inEntity) entities++;
+    inEntity = capitalized && !/[,.;:!?]$/.test(word);
+  }
+  // Acronyms such as WHO, CDC, NASA
+  entities += (sentence.match(/\b[\p{Lu}]{2,6}\b/gu) ?? []).length;
+  return entities;
+}
+
+function scoreSentence(sentence: string): { score: number; signals: ClaimSignal[] } {
+  const signals: ClaimSignal[] = [];
+  let score = 0;
+
+  if (NUMBER_PATTERN.test(sentence)) {
+    signals.push('number');
+    score += 2;
+  }
+  const entities = countEntities(sentence);
+  if (entities > 0) {
+    signals.push('entity');
+    score += Math.min(2, entities);
+  }
+  if (CAUSAL_PATTERN.test(sentence)) {
+    signals.push('causal');
+    score += 2;
+  }
+  if (COMPARISON_PATTERN.test(sentence)) {
+    signals.push('comparison');
+    score += 1;
+  }
+  if (REPORTING_PATTERN.test(sentence)) {
+    signals.push('reporting');
+    score += 1;
+  }
+
+  if (sentence.trim().endsWith('?')) score -= 3;
+  if (OPINION_PATTERN.test(sentence)) score -= 2;
+
+  return { score, signals };
+}
+
+/**
+ * Check-worthy sentences, best first up to `maxClaims`, returned in text order
+ */
+export function extractClaims(text: string, options: ClaimExtractionOptions = {}): ExtractedClaim[] {
+  const { maxClaims = 5, minScore = 3 } = options;
+
+  const candidates = splitSentences(text)
+    .filter(sentence => {
+      const words = sentence.text.split(/\s+/).length;
+      return words >= 5 && words <= 60;
+    })
+    .map(sentence => ({ ...sentence, ...scoreSentence(sentence.text) }))
+    .filter(claim => claim.score >= minScore);
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.start - b.start)
+    .slice(0, maxClaims)
+    .sort((a, b) => a.start - b.start);
+}
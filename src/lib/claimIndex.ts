@@ -0,0 +1,97 @@
+/**
+ * Claim Index Module
+ * TF-IDF index over fact-checked claims, matched to submitted text by
+ * cosine similarity
+ */
+
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { stem } from '@/lib/textMatcher';
+
+interface IndexedClaim {
+  claim: FactCheckClaim;
+  vector: Map<string, number>;
+  norm: number;
+}
+
+export interface ClaimIndex {
+  claims: IndexedClaim[];
+  idf: Map<string, number>;
+}
+
+export interface ClaimSearchOptions {
+  limit?: number;
+  minSimilarity?: number; // 0-1 cosine similarity
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of',
+  'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was', 'we',
+  'were', 'will', 'with', 'would', 'you', 'your', 'said', 'says', 'about', 'after', 'than', 'then',
+  'there', 'these', 'those', 'what', 'when', 'which', 'who', 'why', 'how', 'not', 'no', 'all', 'also',
+]);
+
+export function claimTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+}
+
+function weigh(counts: Map<string, number>, idf: Map<string, number>, fallbackIdf: number) {
+  const vector = new Map<string, number>();
+  let sumOfSquares = 0;
+  counts.forEach((count, term) => {
+    const weight = (1 + Math.log(count)) * (idf.get(term) ?? fallbackIdf);
+    vector.set(term, weight);
+    sumOfSquares += weight * weight;
+  });
+  return { vector, norm: Math.sqrt(sumOfSquares) };
+}
+
+export function buildClaimIndex(claims: FactCheckClaim[]): ClaimIndex {
+  const counted = claims.map(claim => ({ claim, counts: termCounts(claimTerms(claim.text)) }));
+
+  const documentFrequency = new Map<string, number>();
+  counted.forEach(({ counts }) => {
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  // Smoothed IDF so terms found in every claim still count a little
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, term) => idf.set(term, Math.log((claims.length + 1) / (df + 1)) + 1));
+
+  return {
+    claims: counted.map(({ claim, counts }) => ({ claim, ...weigh(counts, idf, 1) })),
+    idf,
+  };
+}
+
+/**
+ * Claims most similar to the text, best first, with `similarity` set
+ */
+export function searchClaimIndex(index: ClaimIndex, text: string, options: ClaimSearchOptions = {}): FactCheckClaim[] {
+  const { limit = 5, minSimilarity = 0.3 } = options;
+  // Terms unseen in the corpus are as rare as possible
+  const unseenIdf = Math.log(index.claims.length + 1) + 1;
+  const query = weigh(termCounts(claimTerms(text)), index.idf, unseenIdf);
+  if (query.norm === 0) return [];
+
+  return index.claims
+    .map(({ claim, vector, norm }) => {
+      let dot = 0;
+      query.vector.forEach((weight, term) => {
+        dot += weight * (vector.get(term) ?? 0);
+      });
+      return { claim, similarity: norm > 0 ? dot / (norm * query.norm) : 0 };
+    })
+    .filter(match => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ claim, similarity }) => ({ ...claim, similarity: Math.round(similarity * 100) / 100 }));
+}
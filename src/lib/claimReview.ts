@@ -0,0 +1,109 @@
+/**
+ * ClaimReview Module
+ * Reads schema.org ClaimReview markup (single objects, arrays, @graph
+ * documents, DataFeeds and JSON Lines dumps) into fact-check claims
+ */
+
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { normalizeRating, RatingScale } from '@/lib/factCheckRatings';
+
+type Person = { name?: string } | string;
+
+// Subset of schema.org ClaimReview; imported records may repeat any
+// property as an array
+export interface ClaimReview {
+  '@type'?: string | string[];
+  claimReviewed?: string | string[];
+  url?: string;
+  datePublished?: string;
+  author?: Person | Person[];
+  reviewRating?: RatingScale & { alternateName?: string; name?: string };
+  itemReviewed?: {
+    author?: Person | Person[];
+    datePublished?: string;
+  };
+}
+
+/**
+ * A text property, or the first entry of a repeated one; other shapes are
+ * ignored rather than trusted
+ */
+function textOf(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+}
+
+/**
+ * Name of a Person/Organization given as a string or object, or of the first one listed
+ */
+function nameOf(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first && typeof first === 'object') return textOf((first as { name?: unknown }).name);
+  return textOf(first);
+}
+
+export function claimFromClaimReview(review: ClaimReview): FactCheckClaim {
+  const textualRating = textOf(review.reviewRating?.alternateName) || textOf(review.reviewRating?.name) || 'Unknown';
+  return {
+    text: textOf(review.claimReviewed) || '',
+    claimant: nameOf(review.itemReviewed?.author),
+    claimDate: textOf(review.itemReviewed?.datePublished),
+    rating: textualRating,
+    ratingValue: normalizeRating(textualRating, review.reviewRating),
+    url: textOf(review.url) || '',
+    publisher: nameOf(review.author) || 'Unknown',
+    reviewDate: textOf(review.datePublished),
+  };
+}
+
+function isClaimReview(value: Record<string, unknown>): boolean {
+  const type = value['@type'];
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes('ClaimReview') || typeof value.claimReviewed === 'string';
+}
+
+/**
+ * Collect ClaimReview objects nested anywhere in a JSON-LD value
+ */
+function collectReviews(value: unknown, found: ClaimReview[], depth = 0) {
+  if (depth > 8 || !value || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReviews(item, found, depth + 1));
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (isClaimReview(record)) {
+    found.push(record as ClaimReview);
+    return;
+  }
+  // @graph documents, DataFeed elements and their items
+  for (const key of ['@graph', 'dataFeedElement', 'item', 'items']) {
+    collectReviews(record[key], found, depth + 1);
+  }
+}
+
+/**
+ * Parse a ClaimReview dataset; claims without text are dropped
+ * @throws Error naming the first malformed line of a JSON Lines file
+ */
+export function parseClaimReviewDataset(content: string): FactCheckClaim[] {
+  const reviews: ClaimReview[] = [];
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  try {
+    collectReviews(JSON.parse(trimmed), reviews);
+  } catch {
+    // Not a single JSON document, so read it as JSON Lines
+    trimmed.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        collectReviews(JSON.parse(line), reviews);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+    });
+  }
+
+  return reviews.map(claimFromClaimReview).filter(claim => claim.text.trim().length > 0);
+}
@@ -0,0 +1,240 @@
+/**
+ * Comparison Module
+ * Differences between two analysis results: sub-scores, emotional triggers,
+ * cited sources, and a word-level text diff that flags newly added
+ * sensational phrasing
+ */
+
+import { AnalysisResult } from '@/lib/analysisEngine';
+
+export type DiffType = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+  start: number; // Offset in the left text for removed segments, otherwise in the right text
+  end: number;
+  flagged?: boolean; // Added text that the right-hand analysis marked as sensational or emotional
+}
+
+export interface ScoreDelta {
+  id: string;
+  label: string;
+  left?: number;
+  right?: number;
+  delta?: number; // right - left, when both sides have a score
+}
+
+export interface SetDelta {
+  onlyLeft: string[];
+  onlyRight: string[];
+  shared: string[];
+}
+
+export interface ResultComparison {
+  scores: ScoreDelta[];
+  triggers: SetDelta;
+  sources: SetDelta;
+  diff: DiffSegment[];
+}
+
+interface Token {
+  text: string;
+  key: string;
+  start: number;
+}
+
+// Evidence types that count as loaded phrasing in the text diff
+const NEUTRAL_EVIDENCE = new Set(['attribution', 'domain', 'claim']);
+
+function tokenizeForDiff(text: string): Token[] {
+  return [...text.matchAll(/\s+|[^\s]+/g)].map(match => ({
+    text: match[0],
+    // Any run of whitespace compares equal so reflowed text doesn't show as changed
+    key: /^\s/.test(match[0]) ? ' ' : match[0],
+    start: match.index ?? 0,
+  }));
+}
+
+type DiffOp = { type: DiffType; token: Token };
+
+interface Snake {
+  x: number; // Start of the snake, relative to the compared ranges
+  y: number;
+  u: number; // End of the snake
+  v: number;
+}
+
+/**
+ * Find the middle snake of the shortest edit path between a[aStart, aEnd)
+ * and b[bStart, bEnd) by running Myers' search from both ends at once; only
+ * the current furthest-reaching diagonals are kept, so memory is O(N + M)
+ */
+function middleSnake(a: Token[], aStart: number, aEnd: number, b: Token[], bStart: number, bEnd: number): Snake {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x per diagonal; backward x counts from the end of the ranges
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x].key === b[bStart + y].key) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+        return { x: startX, y: startY, u: x, v: y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - x - 1].key === b[bEnd - y - 1].key) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+      }
+    }
+  }
+
+  // Unreachable: the searches always meet within (n + m) / 2 steps
+  return { x: n, y: m, u: n, v: m };
+}
+
+function diffRange(a: Token[], aStart: number, aEnd: number, b: Token[], bStart: number, bEnd: number, ops: DiffOp[]) {
+  while (aStart < aEnd && bStart < bEnd && a[aStart].key === b[bStart].key) {
+    ops.push({ type: 'same', token: b[bStart] });
+    aStart++;
+    bStart++;
+  }
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1].key === b[bEnd - suffix - 1].key) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart === aEnd) {
+    for (let y = bStart; y < bEnd; y++) ops.push({ type: 'added', token: b[y] });
+  } else if (bStart === bEnd) {
+    for (let x = aStart; x < aEnd; x++) ops.push({ type: 'removed', token: a[x] });
+  } else {
+    const snake = middleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, aStart + snake.x, b, bStart, bStart + snake.y, ops);
+    for (let y = bStart + snake.y; y < bStart + snake.v; y++) ops.push({ type: 'same', token: b[y] });
+    diffRange(a, aStart + snake.u, aEnd, b, bStart + snake.v, bEnd, ops);
+  }
+
+  for (let y = bEnd; y < bEnd + suffix; y++) ops.push({ type: 'same', token: b[y] });
+}
+
+/**
+ * Myers O(ND) diff over token keys in linear space (divide and conquer on
+ * the middle snake); returns operations in order
+ */
+function diffTokens(a: Token[], b: Token[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/**
+ * Word-level diff from the left text to the right text
+ */
+export function diffText(left: string, right: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+
+  for (const { type, token } of diffTokens(tokenizeForDiff(left), tokenizeForDiff(right))) {
+    const last = segments[segments.length - 1];
+    const end = token.start + token.text.length;
+    if (last && last.type === type && last.end === token.start) {
+      last.text += token.text;
+      last.end = end;
+    } else {
+      segments.push({ type, text: token.text, start: token.start, end });
+    }
+  }
+
+  return segments;
+}
+
+function flagSensationalAdditions(segments: DiffSegment[], right: AnalysisResult): DiffSegment[] {
+  const spans = (right.evidence ?? []).filter(
+    e => e.start !== undefined && e.end !== undefined && !NEUTRAL_EVIDENCE.has(e.type)
+  );
+  return segments.map(segment =>
+    segment.type === 'added' && spans.some(e => e.start! < segment.end && e.end! > segment.start)
+      ? { ...segment, flagged: true }
+      : segment
+  );
+}
+
+function setDelta(left: Iterable<string>, right: Iterable<string>): SetDelta {
+  const a = new Set(left);
+  const b = new Set(right);
+  return {
+    onlyLeft: [...a].filter(item => !b.has(item)),
+    onlyRight: [...b].filter(item => !a.has(item)),
+    shared: [...a].filter(item => b.has(item)),
+  };
+}
+
+function scoreDeltas(left: AnalysisResult, right: AnalysisResult): ScoreDelta[] {
+  const ids = new Map<string, string>();
+  for (const score of [...(left.analyzerScores ?? []), ...(right.analyzerScores ?? [])]) {
+    if (!ids.has(score.id)) ids.set(score.id, score.label);
+  }
+
+  const available = (result: AnalysisResult, id: string) => {
+    const score = result.analyzerScores?.find(s => s.id === id);
+    return score?.available ? score.score : undefined;
+  };
+  const delta = (a?: number, b?: number) => (a !== undefined && b !== undefined ? b - a : undefined);
+
+  const rows: ScoreDelta[] = [...ids].map(([id, label]) => {
+    const a = available(left, id);
+    const b = available(right, id);
+    return { id, label, left: a, right: b, delta: delta(a, b) };
+  });
+  rows.push({ id: 'overall', label: 'Overall', left: left.score, right: right.score, delta: delta(left.score, right.score) });
+  return rows;
+}
+
+function triggerWords(result: AnalysisResult): string[] {
+  return (result.emotionalAnalysis?.triggers ?? []).flatMap(t => t.words.map(word => `${t.category}: ${word}`));
+}
+
+function sourceDomains(result: AnalysisResult): string[] {
+  return (result.sourceCredibility?.foundSources ?? []).map(s => `${s.domain} (${s.reputation})`);
+}
+
+export function compareResults(left: AnalysisResult, right: AnalysisResult): ResultComparison {
+  return {
+    scores: scoreDeltas(left, right),
+    triggers: setDelta(triggerWords(left), triggerWords(right)),
+    sources: setDelta(sourceDomains(left), sourceDomains(right)),
+    diff: flagSensationalAdditions(diffText(left.text, right.text), right),
+  };
+}
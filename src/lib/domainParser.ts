@@ -0,0 +1,198 @@
+/**
+ * Domain Parser Module
+ * Parses URLs and host names (ports, trailing dots, IDN hosts) and splits
+ * them into subdomain, registrable domain and public suffix using the
+ * bundled Public Suffix List
+ */
+
+import { PUBLIC_SUFFIX_RULES } from '@/lib/publicSuffixList';
+
+export interface ParsedHost {
+  hostname: string; // Lowercase ASCII (punycode) host without port or trailing dot
+  publicSuffix: string; // e.g. "co.uk"
+  registrableDomain?: string; // e.g. "bbc.co.uk"; undefined for IPs and bare suffixes
+  subdomain: string; // e.g. "news"; empty when there is none
+  isIp: boolean;
+  isKnownSuffix: boolean; // The suffix is on the list rather than an unlisted last label
+}
+
+interface SuffixRules {
+  rules: Set<string>;
+  exceptions: Set<string>;
+}
+
+let suffixRules: SuffixRules | null = null;
+
+/**
+ * ASCII (punycode) form of a host name, or undefined when it is invalid
+ */
+function toAsciiHost(host: string): string | undefined {
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rule in punycode; IDN rules are listed in Unicode but hosts arrive as ASCII
+ */
+function asciiRule(rule: string): string | undefined {
+  if (/^[\x21-\x7e]*$/.test(rule)) return rule;
+  const wildcard = rule.startsWith('*.');
+  const host = toAsciiHost(wildcard ? rule.slice(2) : rule);
+  return host && (wildcard ? `*.${host}` : host);
+}
+
+function getSuffixRules(): SuffixRules {
+  if (!suffixRules) {
+    const rules = new Set<string>();
+    const exceptions = new Set<string>();
+    for (const line of PUBLIC_SUFFIX_RULES.split('\n')) {
+      const rule = line.trim();
+      if (!rule) continue;
+      const isException = rule.startsWith('!');
+      const ascii = asciiRule(isException ? rule.slice(1) : rule);
+      if (ascii) (isException ? exceptions : rules).add(ascii);
+    }
+    suffixRules = { rules, exceptions };
+  }
+  return suffixRules;
+}
+
+const IPV4_PATTERN = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+/**
+ * Normalized host of a URL or bare host name ("Example.COM:8080/path")
+ */
+export function normalizeHost(input: string): string | undefined {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  try {
+    const hostname = new URL(withProtocol).hostname.replace(/\.+$/, '');
+    return hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a URL or host into its public suffix, registrable domain and subdomain
+ */
+export function parseHost(input: string): ParsedHost | undefined {
+  const hostname = normalizeHost(input);
+  if (!hostname) return undefined;
+
+  if (IPV4_PATTERN.test(hostname) || hostname.startsWith('[')) {
+    return { hostname, publicSuffix: '', subdomain: '', isIp: true, isKnownSuffix: false };
+  }
+
+  const labels = hostname.split('.');
+  const { rules, exceptions } = getSuffixRules();
+
+  // Longest matching rule wins; exceptions drop their leftmost label.
+  // Without a matching rule the last label is the suffix ("*" rule)
+  let suffixStart = labels.length - 1;
+  let isKnownSuffix = false;
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exceptions.has(candidate)) {
+      suffixStart = i + 1;
+      isKnownSuffix = true;
+      break;
+    }
+    const parent = labels.slice(i + 1).join('.');
+    if (rules.has(candidate) || (parent && rules.has(`*.${parent}`))) {
+      suffixStart = i;
+      isKnownSuffix = true;
+      break;
+    }
+  }
+
+  const publicSuffix = labels.slice(suffixStart).join('.');
+  if (suffixStart === 0) {
+    return { hostname, publicSuffix, subdomain: '', isIp: false, isKnownSuffix };
+  }
+  return {
+    hostname,
+    publicSuffix,
+    registrableDomain: labels.slice(suffixStart - 1).join('.'),
+    subdomain: labels.slice(0, suffixStart - 1).join('.'),
+    isIp: false,
+    isKnownSuffix,
+  };
+}
+
+// RFC 3492 parameters
+const PUNYCODE = { base: 36, tMin: 1, tMax: 26, skew: 38, damp: 700, initialBias: 72, initialN: 128 };
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  const { base, tMin, tMax, skew, damp } = PUNYCODE;
+  delta = firstTime ? Math.floor(delta / damp) : Math.floor(delta / 2);
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((base - tMin) * tMax) / 2) {
+    delta = Math.floor(delta / (base - tMin));
+    k += base;
+  }
+  return k + Math.floor(((base - tMin + 1) * delta) / (delta + skew));
+}
+
+function punycodeDigit(char: string): number {
+  if (/[0-9]/.test(char)) return char.charCodeAt(0) - 22; // 26-35
+  if (/[a-z]/i.test(char)) return char.toLowerCase().charCodeAt(0) - 97; // 0-25
+  return PUNYCODE.base;
+}
+
+/**
+ * Decode one punycode label (without the xn-- prefix); undefined when malformed
+ */
+function decodePunycode(input: string): string | undefined {
+  const { base, tMin, tMax } = PUNYCODE;
+  const delimiter = input.lastIndexOf('-');
+  const output = [...input.slice(0, Math.max(delimiter, 0))].map(char => char.charCodeAt(0));
+  let n = PUNYCODE.initialN;
+  let bias = PUNYCODE.initialBias;
+  let i = 0;
+
+  for (let index = delimiter + 1; index < input.length;) {
+    const previous = i;
+    for (let weight = 1, k = base; ; k += base) {
+      if (index >= input.length) return undefined;
+      const digit = punycodeDigit(input[index++]);
+      if (digit >= base) return undefined;
+      i += digit * weight;
+      const threshold = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < threshold) break;
+      weight *= base - threshold;
+    }
+    bias = adaptBias(i - previous, output.length + 1, previous === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  try {
+    return String.fromCodePoint(...output);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Unicode form of a punycode host, e.g. "xn--bcher-kva.de" -> "bücher.de"
+ */
+export function toUnicodeHost(hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label))
+    .join('.');
+}
+
+/**
+ * Registrable domain of a URL or host, e.g. "edition.cnn.com" -> "cnn.com"
+ */
+export function getRegistrableDomain(input: string): string | undefined {
+  return parseHost(input)?.registrableDomain;
+}
@@ -0,0 +1,33 @@
+/**
+ * Browser download and print helpers for exported files
+ */
+export function downloadFile(content: string | Blob, filename: string, mimeType = 'application/json') {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Open the print dialog for a standalone HTML document without leaving the page
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing blocks in most browsers; remove the frame once it returns
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
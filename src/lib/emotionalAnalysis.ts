@@ -3,6 +3,9 @@
  * Detects emotional manipulation and sensationalist language patterns
  */
 
+import { findPatternSpans, TextSpan } from '@/lib/textSpans';
+import { matchPhrases, tokenize } from '@/lib/textMatcher';
+
 export interface EmotionalAnalysisResult {
   score: number; // 0-100, higher = more emotional manipulation
   triggers: EmotionalTrigger[];
@@ -14,10 +17,19 @@ export interface EmotionalTrigger {
   category: string;
   words: string[];
   intensity: number;
+  spans?: TextSpan[]; // Where each match occurs in the original text
+  ignored?: number; // Matches discounted because they were negated or quoted
 }
 
+export interface LexiconCategory {
+  words: string[];
+  weight: number;
+}
+
+export type EmotionalLexicon = Record<string, LexiconCategory>;
+
 // Emotional word dictionaries with intensity weights
-const EMOTIONAL_WORDS: Record<string, { words: string[]; weight: number }> = {
+export const EMOTIONAL_WORDS: EmotionalLexicon = {
   fear: {
     words: [
       'dangerous', 'threat', 'terror', 'deadly', 'alarming', 'crisis',
@@ -78,15 +90,18 @@ const EMOTIONAL_WORDS: Record<string, { words: string[]; weight: number }> = {
 /**
  * Analyzes text for emotional manipulation patterns
  */
-export function analyzeEmotionalContent(text: string): EmotionalAnalysisResult {
-  const lowerText = text.toLowerCase();
+export function analyzeEmotionalContent(text: string, lexicon: EmotionalLexicon = EMOTIONAL_WORDS): EmotionalAnalysisResult {
+  const tokenized = tokenize(text);
   const triggers: EmotionalTrigger[] = [];
   let totalScore = 0;
   let maxIntensity = 0;
   let dominantCategory = '';
 
-  for (const [category, { words, weight }] of Object.entries(EMOTIONAL_WORDS)) {
-    const foundWords = words.filter(word => lowerText.includes(word.toLowerCase()));
+  for (const [category, { words, weight }] of Object.entries(lexicon)) {
+    // Negated ("not shocking") and quoted (reported speech) matches don't count
+    const matches = matchPhrases(tokenized, words);
+    const counted = matches.filter(m => !m.negated && !m.quoted);
+    const foundWords = Array.from(new Set(counted.map(m => m.phrase)));
     
     if (foundWords.length > 0) {
       const intensity = foundWords.length * weight;
@@ -95,7 +110,9 @@ export function analyzeEmotionalContent(text: string): EmotionalAnalysisResult {
       triggers.push({
         category: formatCategory(category),
         words: foundWords,
-        intensity: Math.min(100, Math.round(intensity * 20))
+        intensity: Math.min(100, Math.round(intensity * 20)),
+        spans: counted.map(({ start, end, text }) => ({ start, end, text })),
+        ignored: matches.length - counted.length
       });
 
       if (intensity > maxIntensity) {
@@ -115,7 +132,8 @@ export function analyzeEmotionalContent(text: string): EmotionalAnalysisResult {
     triggers.push({
       category: 'Excessive Punctuation',
       words: [`${exclamationCount} exclamation marks`],
-      intensity: Math.min(100, exclamationCount * 15)
+      intensity: Math.min(100, exclamationCount * 15),
+      spans: findPatternSpans(text, /!+/)
     });
   }
 
@@ -124,7 +142,8 @@ export function analyzeEmotionalContent(text: string): EmotionalAnalysisResult {
     triggers.push({
       category: 'Capitalization',
       words: [`${capsWordCount} ALL CAPS words`],
-      intensity: Math.min(100, capsWordCount * 12)
+      intensity: Math.min(100, capsWordCount * 12),
+      spans: findPatternSpans(text, /\b[A-Z]{3,}\b/)
     });
   }
 
@@ -0,0 +1,27 @@
+/**
+ * Endpoint Config Module
+ * Optional endpoints and keys from the Vite environment, and URL templates
+ * that take a request value through a {placeholder}
+ */
+
+/**
+ * Read a VITE_* setting; undefined when unset, empty or outside of Vite builds
+ */
+export function readEnv(name: string): string | undefined {
+  const value: unknown = import.meta.env?.[name];
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+/**
+ * Fill a value into an endpoint template: `{name}` is replaced with the
+ * encoded value, otherwise the value is sent as a `name` query parameter
+ */
+export function buildEndpointUrl(template: string, name: string, value: string): string {
+  const placeholder = `{${name}}`;
+  if (template.includes(placeholder)) {
+    return template.replace(placeholder, encodeURIComponent(value));
+  }
+  const url = new URL(template, globalThis.location?.href);
+  url.searchParams.set(name, value);
+  return url.toString();
+}
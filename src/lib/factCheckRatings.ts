@@ -0,0 +1,156 @@
+/**
+ * Fact-Check Ratings
+ * Maps the verdicts used by fact-checking organizations onto a common
+ * numeric scale (0-100, higher = more false), from explicit ClaimReview
+ * rating scales or a table of rating vocabularies in several languages
+ */
+
+export interface RatingScale {
+  // schema.org Rating properties; JSON-LD often carries them as strings
+  ratingValue?: number | string;
+  bestRating?: number | string;
+  worstRating?: number | string;
+}
+
+interface RatingMapping {
+  value: number;
+  phrases: string[];
+}
+
+// Phrases are matched as whole words, longest first, so "mostly false"
+// wins over "false" and "not true" over "true"
+const RATING_TABLE: RatingMapping[] = [
+  {
+    value: 10,
+    phrases: [
+      'true', 'correct', 'accurate', 'correct attribution', 'geppetto checkmark',
+      'verdadero', 'verdadera', 'verdad', 'cierto', 'cierta', 'verdadeiro', 'verdadeira',
+      'vrai', 'vraie', 'wahr', 'richtig', 'zutreffend', 'vero', 'vera', 'corretto', 'waar',
+    ],
+  },
+  {
+    value: 25,
+    phrases: [
+      'mostly true', 'largely true', 'mostly correct', 'largely accurate', 'mostly accurate', 'one pinocchio', '1 pinocchio',
+      'mayormente verdadero', 'mayormente cierto', 'en gran parte cierto', 'casi verdadero', 'quase verdadeiro',
+      'plutôt vrai', 'principalement vrai', 'überwiegend wahr', 'weitgehend richtig', 'überwiegend richtig',
+      'quasi vero', 'grotendeels waar',
+    ],
+  },
+  {
+    value: 50,
+    phrases: [
+      'half true', 'half truth', 'mixture', 'mixed', 'partly true', 'partly false', 'partially true', 'partially false',
+      'two pinocchios', '2 pinocchios', 'unproven', 'unverified', 'unsupported', 'no evidence', 'inconclusive',
+      'lacks context', 'needs context', 'missing context', 'research in progress',
+      'verdad a medias', 'medio verdadero', 'parcialmente verdadero', 'parcialmente falso', 'parcialmente cierto',
+      'sin evidencia', 'no verificable', 'meia verdade', 'sem provas', 'insustentável',
+      'à moitié vrai', 'en partie vrai', 'en partie faux', 'partiellement faux', "c'est plus compliqué", 'invérifiable',
+      'halb wahr', 'halbwahr', 'teilweise richtig', 'teilweise falsch', 'unbelegt', 'fehlender kontext',
+      "c'è di più", 'parzialmente vero', 'parzialmente falso', 'half waar', 'onbewezen',
+    ],
+  },
+  {
+    value: 70,
+    phrases: [
+      'misleading', 'out of context', 'exaggerated', 'exaggeration', 'distorts the facts', 'spins the facts', 'cherry picks',
+      'engañoso', 'engañosa', 'sacado de contexto', 'fuera de contexto', 'exagerado', 'exagerada', 'impreciso', 'imprecisa',
+      'enganoso', 'enganosa', 'fora de contexto', 'distorcido',
+      'trompeur', 'trompeuse', 'hors contexte', 'exagéré', 'sorti de son contexte',
+      'irreführend', 'aus dem zusammenhang gerissen', 'übertrieben',
+      'fuorviante', 'decontestualizzato', 'esagerato', 'misleidend',
+    ],
+  },
+  {
+    value: 75,
+    phrases: [
+      'mostly false', 'largely false', 'mostly inaccurate', 'three pinocchios', '3 pinocchios',
+      'mayormente falso', 'en gran parte falso', 'casi falso', 'quase falso', 'principalmente falso',
+      'plutôt faux', 'principalement faux', 'überwiegend falsch', 'weitgehend falsch', 'quasi falso', 'grotendeels onwaar',
+    ],
+  },
+  {
+    value: 85,
+    phrases: [
+      'satire', 'parody', 'manipulated', 'altered', 'doctored', 'misattributed', 'incorrect attribution',
+      'sátira', 'parodia', 'manipulado', 'manipulada', 'montaje', 'montagem', 'manipulé', 'parodie', 'satira',
+      'manipuliert', 'manipolato',
+    ],
+  },
+  {
+    value: 90,
+    phrases: [
+      'false', 'falsely', 'fake', 'fake news', 'not true', 'untrue', 'not correct', 'incorrect', 'inaccurate', 'wrong',
+      'pants on fire', 'four pinocchios', '4 pinocchios', 'hoax', 'fabricated', 'fabrication', 'scam', 'baseless', 'debunked',
+      'falso', 'falsa', 'no es cierto', 'no es verdad', 'bulo', 'inventado', 'estafa', 'não é verdade', 'boato',
+      'faux', 'fausse', 'pas vrai', 'infox', 'canular', 'intox',
+      'falsch', 'nicht wahr', 'frei erfunden', 'erfunden',
+      'non vero', 'bufala', 'infondato', 'onwaar', 'nep',
+    ],
+  },
+];
+
+/**
+ * Lowercase, drop accents and punctuation, and collapse whitespace
+ */
+function normalizeRatingText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[’']/g, "'")
+    .replace(/[^\p{L}\p{N}']+/gu, ' ')
+    .trim();
+}
+
+const PHRASES: { phrase: string; value: number }[] = RATING_TABLE
+  .flatMap(({ value, phrases }) => phrases.map(phrase => ({ phrase: normalizeRatingText(phrase), value })))
+  .sort((a, b) => b.phrase.length - a.phrase.length);
+
+// Words that flip the verdict after them ("not accurate", "no es falso");
+// accents are already dropped, so "não" is "nao"
+const NEGATIONS = new Set(['not', 'no', 'nicht', 'kein', 'keine', 'pas', 'non', 'nao', 'niet', 'geen']);
+
+// How many words before a phrase a negation still applies to ("n'est pas faux")
+const NEGATION_WINDOW = 2;
+
+const isNegation = (word: string) => NEGATIONS.has(word);
+
+const toNumber = (value: number | string | undefined) =>
+  value === undefined || value === '' ? undefined : Number(value);
+
+/**
+ * Convert a ClaimReview rating on the publisher's own scale, where
+ * `bestRating` (default 5) means true and `worstRating` (default 1) false
+ */
+export function ratingFromScale(scale: RatingScale): number | undefined {
+  const value = toNumber(scale.ratingValue);
+  const best = toNumber(scale.bestRating) ?? 5;
+  const worst = toNumber(scale.worstRating) ?? 1;
+  if (value === undefined || ![value, best, worst].every(Number.isFinite) || best === worst) {
+    return undefined;
+  }
+
+  const truthfulness = (value - worst) / (best - worst);
+  // Out-of-range values such as -1 are used for "not rated"
+  if (truthfulness < 0 || truthfulness > 1) return undefined;
+  return Math.round(90 - truthfulness * 80);
+}
+
+/**
+ * Normalize a verdict to a numeric value (0-100, higher = more false);
+ * undefined when neither the scale nor the text can be mapped
+ */
+export function normalizeRating(textualRating: string, scale?: RatingScale): number | undefined {
+  const fromScale = scale ? ratingFromScale(scale) : undefined;
+  if (fromScale !== undefined) return fromScale;
+
+  const rating = ` ${normalizeRatingText(textualRating)} `;
+  const match = PHRASES.find(({ phrase }) => rating.includes(` ${phrase} `));
+  if (!match) return undefined;
+
+  // A negation the table does not list itself mirrors the verdict on the scale
+  const preceding = rating.slice(0, rating.indexOf(` ${match.phrase} `)).trim().split(' ').slice(-NEGATION_WINDOW);
+  const negated = preceding.some(isNegation) && !match.phrase.split(' ').some(isNegation);
+  return negated ? 100 - match.value : match.value;
+}
@@ -0,0 +1,98 @@
+/**
+ * Heuristic Analysis Module
+ * Scores structural and lexical red flags such as sensationalist wording,
+ * excessive punctuation and missing attribution
+ */
+
+import { TextSpan } from '@/lib/textSpans';
+import { matchPhrases, PhraseMatch, tokenize } from '@/lib/textMatcher';
+
+export interface HeuristicAnalysisResult {
+  score: number; // 0-100, higher = more fake indicators
+  reasons: string[];
+  sensationalistWords: string[];
+  credibilityPhrases: string[];
+  sensationalistSpans: TextSpan[];
+  credibilitySpans: TextSpan[];
+}
+
+const SENSATIONALIST_WORDS = [
+  'shocking', 'unbelievable', 'you won\'t believe', 'breaking', 'urgent',
+  'exclusive', 'secret', 'banned', 'they don\'t want you to know',
+  'miracle', 'cure', 'exposed', 'conspiracy', 'cover-up', 'hoax'
+];
+
+const CREDIBILITY_PHRASES = [
+  'according to', 'research shows', 'study finds', 'experts say',
+  'scientists confirm', 'data indicates', 'evidence suggests'
+];
+
+function uniquePhrases(matches: PhraseMatch[]): string[] {
+  return Array.from(new Set(matches.map(m => m.phrase)));
+}
+
+function toSpan({ start, end, text }: PhraseMatch): TextSpan {
+  return { start, end, text };
+}
+
+/**
+ * Analyzes text for structural and lexical misinformation markers
+ */
+export function analyzeHeuristics(text: string): HeuristicAnalysisResult {
+  const tokenized = tokenize(text);
+  const reasons: string[] = [];
+  let heuristicScore = 0;
+
+  // Check for sensationalist language
+  const sensationalistMatches = matchPhrases(tokenized, SENSATIONALIST_WORDS).filter(m => !m.negated && !m.quoted);
+  const sensationalistFound = uniquePhrases(sensationalistMatches);
+  if (sensationalistFound.length > 0) {
+    heuristicScore += sensationalistFound.length * 15;
+    reasons.push(`Sensationalist language detected: "${sensationalistFound.slice(0, 2).join('", "')}"`);
+  }
+
+  // Check for excessive punctuation
+  const exclamationCount = (text.match(/!/g) || []).length;
+  const questionCount = (text.match(/\?/g) || []).length;
+  if (exclamationCount > 2 || questionCount > 3) {
+    heuristicScore += 20;
+    reasons.push('Excessive punctuation suggests emotional manipulation');
+  }
+
+  // Check for ALL CAPS words
+  const capsWords = text.match(/\b[A-Z]{4,}\b/g) || [];
+  if (capsWords.length > 1) {
+    heuristicScore += 15;
+    reasons.push('Multiple ALL CAPS words indicate sensationalism');
+  }
+
+  // Check for credibility indicators
+  const credibilityMatches = matchPhrases(tokenized, CREDIBILITY_PHRASES).filter(m => !m.negated);
+  const credibilityFound = uniquePhrases(credibilityMatches);
+  if (credibilityFound.length > 0) {
+    heuristicScore -= 20;
+    reasons.push('Contains source attribution (positive indicator)');
+  }
+
+  // Check text length
+  if (text.length < 50) {
+    heuristicScore += 10;
+    reasons.push('Very short content lacks context');
+  }
+
+  // Check for URLs
+  if (text.includes('http') || text.includes('www')) {
+    heuristicScore -= 10;
+    reasons.push('Contains external links for verification');
+  }
+
+  return {
+    // Clamp heuristic score
+    score: Math.max(0, Math.min(100, heuristicScore)),
+    reasons,
+    sensationalistWords: sensationalistFound,
+    credibilityPhrases: credibilityFound,
+    sensationalistSpans: sensationalistMatches.map(toSpan),
+    credibilitySpans: credibilityMatches.map(toSpan)
+  };
+}
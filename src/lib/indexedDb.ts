@@ -0,0 +1,82 @@
+/**
+ * IndexedDB Helpers
+ * Thin promise wrappers around the IndexedDB request/transaction API
+ */
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void;
+
+/**
+ * Open (and create or upgrade) a database
+ * @throws Error when IndexedDB is unavailable or the open request fails
+ */
+export function openDatabase(name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error(`Could not open ${name}`));
+    request.onblocked = () => reject(new Error(`${name} is open in another tab with an older version`));
+  });
+}
+
+/**
+ * Memoized opener for a module's database: the first call opens it (then runs
+ * `init`, e.g. a data migration) and later calls share that connection; a
+ * failed open is forgotten so the next call retries
+ */
+export function createDatabaseOpener(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler,
+  init?: (db: IDBDatabase) => Promise<void>
+): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(name, version, upgrade)
+        .then(async db => {
+          await init?.(db);
+          return db;
+        })
+        .catch(error => {
+          dbPromise = null;
+          throw error;
+        });
+    }
+    return dbPromise;
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits, reject if it errors or aborts
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+export function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+}
@@ -0,0 +1,134 @@
+/**
+ * Custom Lexicon Module
+ * User-defined additions, removals and categories layered over the built-in
+ * emotional lexicon, plus JSON import/export
+ */
+
+import { z } from 'zod';
+import { EMOTIONAL_WORDS, EmotionalLexicon } from '@/lib/emotionalAnalysis';
+
+export const LEXICON_FORMAT_VERSION = 1;
+
+export interface CategoryOverride {
+  added?: string[];
+  removed?: string[]; // Built-in phrases to drop
+  weight?: number;
+  disabled?: boolean;
+}
+
+export interface LexiconOverrides {
+  version: number;
+  categories: Record<string, CategoryOverride>;
+}
+
+export const EMPTY_LEXICON_OVERRIDES: LexiconOverrides = {
+  version: LEXICON_FORMAT_VERSION,
+  categories: {},
+};
+
+const phraseList = z.array(z.string().trim().min(1).max(200)).max(1000);
+
+const overridesSchema = z.object({
+  version: z.literal(LEXICON_FORMAT_VERSION),
+  categories: z.record(
+    z.string().trim().min(1).max(60),
+    z.object({
+      added: phraseList.optional(),
+      removed: phraseList.optional(),
+      weight: z.number().min(0).max(5).optional(),
+      disabled: z.boolean().optional(),
+    })
+  ),
+});
+
+/**
+ * Normalize a phrase for storage and comparison
+ */
+export function normalizePhrase(phrase: string): string {
+  return phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Apply user overrides to the built-in lexicon
+ */
+export function mergeLexicon(
+  overrides: LexiconOverrides,
+  defaults: EmotionalLexicon = EMOTIONAL_WORDS
+): EmotionalLexicon {
+  const merged: EmotionalLexicon = {};
+  const names = new Set([...Object.keys(defaults), ...Object.keys(overrides.categories)]);
+
+  for (const name of names) {
+    const base = defaults[name];
+    const override = overrides.categories[name] ?? {};
+    if (override.disabled) continue;
+
+    const removed = new Set((override.removed ?? []).map(normalizePhrase));
+    const words = (base?.words ?? []).filter(word => !removed.has(normalizePhrase(word)));
+    for (const phrase of override.added ?? []) {
+      const normalized = normalizePhrase(phrase);
+      if (normalized && !words.some(word => normalizePhrase(word) === normalized)) {
+        words.push(normalized);
+      }
+    }
+
+    if (words.length > 0) {
+      merged[name] = { words, weight: override.weight ?? base?.weight ?? 1 };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether a category ships with the app (as opposed to user-created)
+ */
+export function isBuiltinCategory(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EMOTIONAL_WORDS, name);
+}
+
+/**
+ * Serialize overrides for download
+ */
+export function exportLexicon(overrides: LexiconOverrides): string {
+  return JSON.stringify(overrides, null, 2);
+}
+
+/**
+ * Parse and validate an imported lexicon file
+ * @throws Error with a readable message when the file is not a valid lexicon
+ */
+export function parseLexicon(json: string): LexiconOverrides {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Lexicon file is not valid JSON');
+  }
+
+  const parsed = overridesSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid lexicon file at "${issue.path.join('.') || 'root'}": ${issue.message}`);
+  }
+
+  const categories: Record<string, CategoryOverride> = {};
+  for (const [name, override] of Object.entries(parsed.data.categories)) {
+    categories[normalizePhrase(name)] = {
+      ...override,
+      added: override.added?.map(normalizePhrase),
+      removed: override.removed?.map(normalizePhrase),
+    };
+  }
+  return { version: LEXICON_FORMAT_VERSION, categories };
+}
+
+/**
+ * Combine two override sets; categories in `incoming` take precedence
+ */
+export function combineLexicons(current: LexiconOverrides, incoming: LexiconOverrides): LexiconOverrides {
+  return {
+    version: LEXICON_FORMAT_VERSION,
+    categories: { ...current.categories, ...incoming.categories },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Lookalike Domain Module
+ * Spots domains impersonating trusted outlets: lookalike characters,
+ * misspellings, the outlet's name on another domain ending, or its name
+ * embedded in the domain or a subdomain
+ */
+
+import { parseHost, ParsedHost, toUnicodeHost } from '@/lib/domainParser';
+
+export type ImpersonationTechnique =
+  | 'homoglyph'
+  | 'typosquat'
+  | 'suffix-swap'
+  | 'brand-in-domain'
+  | 'brand-in-subdomain';
+
+export interface ImpersonationMatch {
+  target: string; // Trusted domain being imitated
+  technique: ImpersonationTechnique;
+}
+
+export const IMPERSONATION_TECHNIQUE_LABELS: Record<ImpersonationTechnique, string> = {
+  homoglyph: 'lookalike characters',
+  typosquat: 'misspelled name',
+  'suffix-swap': 'same name on another domain ending',
+  'brand-in-domain': 'outlet name inside the domain',
+  'brand-in-subdomain': 'outlet name in a subdomain',
+};
+
+// Cyrillic, Greek and other letters rendered like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'ё': 'e', 'һ': 'h', 'і': 'i', 'ӏ': 'l', 'ј': 'j',
+  'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'т': 't', 'ս': 'u', 'ԝ': 'w',
+  'х': 'x', 'у': 'y', 'ո': 'n', 'ɡ': 'g', 'ı': 'i',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ω': 'w',
+};
+
+// Outlet names that are ordinary words: "mature" or "nature.org" say nothing
+// about nature.com, so only a whole outlet domain in a host counts for them
+const COMMON_WORD_BRANDS = new Set([
+  'nature', 'science', 'economist', 'who', 'usa', 'factcheck', 'time', 'times', 'people', 'fortune', 'slate',
+  'wired', 'vice', 'nation', 'week', 'hill', 'atlantic', 'guardian', 'independent', 'telegraph', 'mirror', 'sun',
+  'star', 'express', 'post', 'globe', 'observer', 'spectator', 'reason', 'insider', 'health', 'news',
+]);
+
+// Shorter names (bbc, cdc, wsj) are parts of many unrelated names, so they
+// only count as lookalike characters or beside a news word ("bbc-news")
+const MIN_DISTINCTIVE_LENGTH = 6;
+
+const NEWS_WORDS = new Set([
+  'news', 'breaking', 'live', 'today', 'daily', 'world', 'report', 'reports', 'media', 'online', 'official',
+  'alert', 'alerts', 'tv', 'now', 'update', 'updates', 'press', 'headlines',
+]);
+
+// Other domains the outlets own that would otherwise match
+const RELATED_DOMAINS = new Set(['reuters.tv']);
+
+/**
+ * Reduce a label to the shape a reader sees: confusable letters folded,
+ * accents dropped and "rn"/"m", "vv"/"w", "0"/"o", "1"/"i"/"l" merged
+ */
+function skeleton(label: string): string {
+  return [...label.toLowerCase()]
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/0/g, 'o')
+    .replace(/[1i|]/g, 'l');
+}
+
+/**
+ * Optimal string alignment distance (edits, with adjacent swaps counted once)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Name part of a registrable domain, e.g. "bbc" for bbc.co.uk
+ */
+function brandOf(host: ParsedHost): string | undefined {
+  if (!host.registrableDomain) return undefined;
+  return host.registrableDomain.slice(0, -(host.publicSuffix.length + 1));
+}
+
+/**
+ * Whether b is a with one pair of neighbouring letters swapped
+ */
+function isAdjacentSwap(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  const first = [...a].findIndex((char, i) => char !== b[i]);
+  return first !== -1 && first < a.length - 1 &&
+    a[first] === b[first + 1] && a[first + 1] === b[first] && a.slice(first + 2) === b.slice(first + 2);
+}
+
+function matchBrand(host: ParsedHost, label: string, brand: string): ImpersonationTechnique | undefined {
+  const unicodeLabel = toUnicodeHost(label);
+  if (label !== brand && skeleton(unicodeLabel) === skeleton(brand)) return 'homoglyph';
+
+  const words = label.split('-');
+  if (brand.length < MIN_DISTINCTIVE_LENGTH) {
+    return words.includes(brand) && words.some(word => NEWS_WORDS.has(word)) ? 'brand-in-domain' : undefined;
+  }
+
+  if (label === brand) return 'suffix-swap';
+
+  // Names up to 7 letters are one letter away from real words (reuters/routers,
+  // snopes/snipes), so for them only swapped letters count
+  const allowed = brand.length >= 12 ? 2 : brand.length >= 8 ? 1 : 0;
+  if (editDistance(label, brand) <= allowed || isAdjacentSwap(label, brand)) return 'typosquat';
+
+  if (words.includes(brand)) return 'brand-in-domain';
+
+  if (host.subdomain.split('.').includes(brand)) return 'brand-in-subdomain';
+  return undefined;
+}
+
+/**
+ * The trusted domain this host imitates, if any; hosts on a trusted
+ * domain themselves should be filtered out before calling this
+ */
+export function detectImpersonation(host: ParsedHost, trustedDomains: string[]): ImpersonationMatch | undefined {
+  const label = brandOf(host);
+  if (!label || host.isIp || RELATED_DOMAINS.has(host.registrableDomain)) return undefined;
+
+  // A whole trusted domain in the subdomain names its target exactly
+  const subdomain = `.${host.subdomain}.`;
+  const embedded = trustedDomains.find(target => subdomain.includes(`.${target}.`));
+  if (embedded) return { target: embedded, technique: 'brand-in-subdomain' };
+
+  for (const target of trustedDomains) {
+    const trusted = parseHost(target);
+    const brand = trusted && brandOf(trusted);
+    if (!brand || COMMON_WORD_BRANDS.has(brand) || trusted.registrableDomain === host.registrableDomain) continue;
+
+    const technique = matchBrand(host, label, brand);
+    if (technique) return { target, technique };
+  }
+  return undefined;
+}
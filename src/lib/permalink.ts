@@ -0,0 +1,68 @@
+/**
+ * Permalink Module
+ * Encodes a result into a compressed URL fragment so a report link opens the
+ * same verdict on another machine without re-running the analysis
+ */
+
+import { AnalysisResult } from '@/lib/analysisEngine';
+import { REPORT_SCHEMA_VERSION, toVerificationReport } from '@/lib/reportExport';
+import { toAnalysisResult } from '@/lib/resultSchema';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunk to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function reportPath(id: string): string {
+  return `/report/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Full shareable URL with the result embedded in the fragment; the archive's
+ * private tags and notes are left out
+ */
+export async function createPermalink(result: AnalysisResult, origin = window.location.origin): Promise<string> {
+  const { tags, notes, ...shared } = result;
+  const json = JSON.stringify(toVerificationReport(shared));
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${origin}${reportPath(result.id)}#${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a permalink fragment back into a result
+ * @throws Error when the fragment is truncated, corrupt or from a newer schema
+ */
+export async function decodePermalinkFragment(fragment: string): Promise<AnalysisResult> {
+  let report: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(fragment.replace(/^#/, '')), new DecompressionStream('deflate-raw'));
+    report = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This report link is incomplete or corrupted');
+  }
+
+  const { schemaVersion, report: payload } = (report ?? {}) as { schemaVersion?: unknown; report?: unknown };
+  if (typeof schemaVersion !== 'number' || schemaVersion > REPORT_SCHEMA_VERSION) {
+    throw new Error('This report link was created by a newer version of the app');
+  }
+  const result = toAnalysisResult(payload);
+  if (!result) {
+    throw new Error('This report link does not contain a valid report');
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+/**
+ * Seedable Random Number Generation
+ * Small deterministic PRNG so score jitter can be reproduced from a seed
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
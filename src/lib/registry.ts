@@ -0,0 +1,54 @@
+/**
+ * Registry Module
+ * Ordered, id-keyed collection behind the analyzer and fact-check provider
+ * registries
+ */
+
+export interface Registry<T extends { id: string }> {
+  register: (item: T, index?: number) => void;
+  unregister: (id: string) => boolean;
+  move: (id: string, index: number) => void;
+  get: (id: string) => T | undefined;
+  list: () => T[];
+}
+
+/**
+ * Create a registry; registering an existing id replaces it in place unless
+ * an index is given, which moves it there
+ */
+export function createRegistry<T extends { id: string }>(initial: T[] = []): Registry<T> {
+  const items: T[] = [];
+
+  const indexOf = (id: string) => items.findIndex(item => item.id === id);
+
+  const register = (item: T, index?: number) => {
+    const existing = indexOf(item.id);
+    if (existing !== -1 && index === undefined) {
+      items[existing] = item;
+      return;
+    }
+    if (existing !== -1) {
+      items.splice(existing, 1);
+    }
+    const position = index === undefined ? items.length : Math.max(0, Math.min(items.length, index));
+    items.splice(position, 0, item);
+  };
+
+  initial.forEach(item => register(item));
+
+  return {
+    register,
+    unregister: (id) => {
+      const existing = indexOf(id);
+      if (existing === -1) return false;
+      items.splice(existing, 1);
+      return true;
+    },
+    move: (id, index) => {
+      const item = items[indexOf(id)];
+      if (item) register(item, index);
+    },
+    get: (id) => items[indexOf(id)],
+    list: () => [...items],
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Report Export Module
+ * Serializes a single analysis result into a versioned JSON document,
+ * Markdown, or a standalone printable HTML page (saved as PDF from the
+ * browser's print dialog)
+ */
+
+import { AnalysisResult } from '@/lib/analysisEngine';
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { BIAS_LABELS, FACTUAL_REPORTING_LABELS, formatProvenance } from '@/lib/reputationLists';
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface VerificationReport {
+  schemaVersion: number;
+  generatedAt: string;
+  report: Omit<AnalysisResult, 'timestamp'> & { timestamp: string };
+}
+
+const VERDICT_LABELS: Record<AnalysisResult['verdict'], string> = {
+  verified: 'Verified',
+  fake: 'Disputed',
+  uncertain: 'Uncertain',
+};
+
+// Renderer-neutral building blocks shared by the Markdown and HTML output
+type ReportBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'fields'; fields: [string, string][] }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; headers: string[]; rows: string[][] }
+  | { kind: 'quote'; text: string };
+
+export function toVerificationReport(result: AnalysisResult, generatedAt = new Date()): VerificationReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    report: { ...result, timestamp: new Date(result.timestamp).toISOString() },
+  };
+}
+
+export function reportToJson(result: AnalysisResult): string {
+  return JSON.stringify(toVerificationReport(result), null, 2);
+}
+
+/**
+ * File name stem for exports, e.g. "verification-2024-05-01-abc123"
+ */
+export function reportFileName(result: AnalysisResult): string {
+  const date = new Date(result.timestamp).toISOString().slice(0, 10);
+  return `verification-${date}-${result.id.slice(0, 8)}`;
+}
+
+function ratingLabel(claim: FactCheckClaim): string {
+  return claim.ratingValue === undefined ? `${claim.rating} (unmapped)` : claim.rating;
+}
+
+function buildBlocks(result: AnalysisResult): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  const fields: [string, string][] = [
+    ['Verdict', VERDICT_LABELS[result.verdict]],
+    ['Confidence', `${result.confidence}%`],
+  ];
+  if (result.score !== undefined) fields.push(['Score', `${result.score}/100 (higher = more fake indicators)`]);
+  fields.push(['Checked', new Date(result.timestamp).toLocaleString()]);
+  if (result.tags?.length) fields.push(['Tags', result.tags.join(', ')]);
+  blocks.push({ kind: 'fields', fields });
+
+  if (result.article) {
+    const article: [string, string][] = [
+      ['Title', result.article.title],
+      ['URL', result.article.canonicalUrl],
+    ];
+    if (result.article.byline) article.push(['Byline', result.article.byline]);
+    if (result.article.publishedAt) article.push(['Published', result.article.publishedAt]);
+    if (result.article.siteName) article.push(['Site', result.article.siteName]);
+    blocks.push({ kind: 'heading', text: 'Article' }, { kind: 'fields', fields: article });
+  }
+
+  if (result.analyzerScores?.length) {
+    blocks.push(
+      { kind: 'heading', text: 'Sub-scores' },
+      {
+        kind: 'table',
+        headers: ['Analyzer', 'Score', 'Weight'],
+        rows: result.analyzerScores.map(s => [
+          s.label,
+          s.available ? String(s.score) : 'n/a',
+          s.available ? `${Math.round(s.weight * 100)}%` : '—',
+        ]),
+      }
+    );
+  }
+
+  blocks.push({ kind: 'heading', text: 'Findings' }, { kind: 'list', items: result.reasons });
+
+  const emotional = result.emotionalAnalysis;
+  if (emotional) {
+    blocks.push(
+      { kind: 'heading', text: 'Emotional Analysis' },
+      {
+        kind: 'fields',
+        fields: [
+          ['Manipulation level', emotional.manipulationLevel],
+          ['Score', `${emotional.score}/100`],
+          ['Dominant emotion', emotional.dominantEmotion ?? 'none'],
+        ],
+      }
+    );
+    if (emotional.triggers.length > 0) {
+      blocks.push({
+        kind: 'table',
+        headers: ['Trigger', 'Intensity', 'Matches'],
+        rows: emotional.triggers.map(t => [t.category, String(t.intensity), t.words.join(', ')]),
+      });
+    }
+  }
+
+  const sources = result.sourceCredibility;
+  if (sources) {
+    const sourceFields: [string, string][] = [
+      ['Overall reputation', sources.overallReputation],
+      ['Score', `${sources.score}/100`],
+    ];
+    if (sources.reliability !== undefined) sourceFields.push(['Weighted reliability', `${sources.reliability}/100`]);
+    blocks.push({ kind: 'heading', text: 'Source Credibility' }, { kind: 'fields', fields: sourceFields });
+    if (sources.foundSources.length > 0) {
+      blocks.push({
+        kind: 'table',
+        headers: ['Domain', 'Reputation', 'Reliability', 'Bias', 'Factual Reporting', 'Category', 'List'],
+        rows: sources.foundSources.map(s => [
+          s.isPublisher ? `${s.domain} (publisher)` : s.domain,
+          s.reputation,
+          s.reliability !== undefined ? `${s.reliability}/100` : '',
+          s.bias ? BIAS_LABELS[s.bias] : '',
+          s.factualReporting ? FACTUAL_REPORTING_LABELS[s.factualReporting] : '',
+          s.category ?? '',
+          s.provenance ? formatProvenance(s.provenance) : '',
+        ]),
+      });
+    }
+    if (sources.factors.length > 0) blocks.push({ kind: 'list', items: sources.factors });
+  }
+
+  const factCheck = result.factCheckResults;
+  if (factCheck?.available) {
+    blocks.push({ kind: 'heading', text: 'Fact-Check Claims' });
+    if (factCheck.checkedClaims) {
+      const rows = factCheck.checkedClaims.flatMap(checked =>
+        checked.claims.length > 0
+          ? checked.claims.map(c => [checked.text, c.text, ratingLabel(c), c.publisher, c.url])
+          : [[checked.text, 'No matching fact-checks found', '', '', '']]
+      );
+      blocks.push({ kind: 'table', headers: ['Checked Claim', 'Fact-Check', 'Rating', 'Publisher', 'Link'], rows });
+    } else {
+      if (factCheck.query) blocks.push({ kind: 'fields', fields: [['Query', factCheck.query]] });
+      blocks.push(
+        factCheck.claims.length > 0
+          ? {
+              kind: 'table',
+              headers: ['Claim', 'Rating', 'Publisher', 'Link'],
+              rows: factCheck.claims.map(c => [c.text, ratingLabel(c), c.publisher, c.url]),
+            }
+          : { kind: 'list', items: ['No matching fact-checks found'] }
+      );
+    }
+  }
+
+  if (result.notes) {
+    blocks.push({ kind: 'heading', text: "Editor's Notes" }, { kind: 'quote', text: result.notes });
+  }
+
+  blocks.push({ kind: 'heading', text: 'Submitted Text' }, { kind: 'quote', text: result.text });
+  return blocks;
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function reportToMarkdown(result: AnalysisResult): string {
+  const lines = ['# Verification Report', ''];
+
+  for (const block of buildBlocks(result)) {
+    switch (block.kind) {
+      case 'heading':
+        lines.push(`## ${block.text}`, '');
+        break;
+      case 'fields':
+        lines.push(...block.fields.map(([label, value]) => `- **${label}:** ${value}`), '');
+        break;
+      case 'list':
+        lines.push(...block.items.map(item => `- ${item}`), '');
+        break;
+      case 'table':
+        lines.push(
+          `| ${block.headers.join(' | ')} |`,
+          `| ${block.headers.map(() => '---').join(' | ')} |`,
+          ...block.rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+          ''
+        );
+        break;
+      case 'quote':
+        lines.push(...block.text.split(/\r?\n/).map(line => `> ${line}`), '');
+        break;
+    }
+  }
+
+  lines.push(`_Generated ${new Date().toLocaleString()} · report schema v${REPORT_SCHEMA_VERSION}_`, '');
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PRINT_STYLES = `
+  body { font-family: 'Source Serif 4', Georgia, serif; color: #1a1a1a; margin: 2rem auto; max-width: 48rem; line-height: 1.5; }
+  h1 { font-family: 'Playfair Display', Georgia, serif; border-bottom: 3px double #1a1a1a; padding-bottom: .5rem; }
+  h2 { font-family: 'Playfair Display', Georgia, serif; font-size: 1.1rem; text-transform: uppercase; letter-spacing: .05em; border-bottom: 1px solid #999; margin-top: 1.5rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+  dt { font-weight: bold; }
+  dd { margin: 0; word-break: break-word; }
+  table { border-collapse: collapse; width: 100%; font-size: .9rem; }
+  th, td { border: 1px solid #999; padding: .25rem .5rem; text-align: left; vertical-align: top; word-break: break-word; }
+  blockquote { border-left: 3px solid #999; margin: 0; padding-left: 1rem; white-space: pre-wrap; }
+  footer { margin-top: 2rem; font-size: .8rem; color: #666; }
+  @page { margin: 1.5cm; }
+  @media print { body { margin: 0; max-width: none; } h2, tr { break-inside: avoid; } h2 { break-after: avoid; } }
+`;
+
+/**
+ * Standalone HTML document laid out for printing
+ */
+export function reportToHtml(result: AnalysisResult): string {
+  const body = buildBlocks(result).map(block => {
+    switch (block.kind) {
+      case 'heading':
+        return `<h2>${escapeHtml(block.text)}</h2>`;
+      case 'fields':
+        return `<dl>${block.fields.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`;
+      case 'list':
+        return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+      case 'table':
+        return `<table><thead><tr>${block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${block.rows
+          .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+          .join('')}</tbody></table>`;
+      case 'quote':
+        return `<blockquote>${escapeHtml(block.text)}</blockquote>`;
+    }
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(reportFileName(result))}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>Verification Report</h1>
+${body.join('\n')}
+<footer>The Veritas Tribune · generated ${escapeHtml(new Date().toLocaleString())} · report schema v${REPORT_SCHEMA_VERSION}</footer>
+</body>
+</html>`;
+}
@@ -0,0 +1,358 @@
+/**
+ * Reputation Lists Module
+ * Domain reputation lists (the built-in one and lists imported from JSON or
+ * CSV media-bias datasets) and per-user overrides, merged into one lookup
+ * that records which list each verdict came from. Entries carry a 0-100
+ * reliability score and, when the list has them, bias and factual ratings
+ */
+
+import { z } from 'zod';
+import { normalizeHost } from '@/lib/domainParser';
+import { findColumn, parseCsv } from '@/lib/csv';
+
+export type ListedReputation = 'trusted' | 'satire' | 'unreliable' | 'mixed';
+export type OverrideReputation = 'trusted' | 'unreliable';
+export type SourceBias = 'far-left' | 'left' | 'left-center' | 'center' | 'right-center' | 'right' | 'far-right';
+export type FactualReporting = 'very-high' | 'high' | 'mostly-factual' | 'mixed' | 'low' | 'very-low';
+
+export interface ReputationEntry {
+  domain: string; // Host without "www.", e.g. "bbc.co.uk"
+  reputation: ListedReputation;
+  category?: string;
+  reliability?: number; // 0-100, higher = more reliable, as given by the list
+  bias?: SourceBias;
+  factualReporting?: FactualReporting;
+}
+
+export interface ReputationList {
+  id: string; // Lowercase name; importing a list with the same name replaces it
+  name: string;
+  version?: string;
+  date?: string; // Publication date given by the list itself
+  importedAt?: number; // Unset for the built-in list
+  entries: ReputationEntry[];
+}
+
+export interface ReputationOverride {
+  reputation: OverrideReputation;
+  updatedAt: number;
+}
+
+// Per-user verdicts keyed by domain
+export type ReputationOverrides = Record<string, ReputationOverride>;
+
+// The list a verdict came from
+export interface ReputationProvenance {
+  list: string;
+  version?: string;
+  date?: string;
+}
+
+export interface ReputationMatch {
+  reputation: ListedReputation;
+  category: string;
+  reliability: number; // 0-100, higher = more reliable
+  bias?: SourceBias;
+  factualReporting?: FactualReporting;
+  provenance: ReputationProvenance;
+}
+
+export type ReputationIndex = ReadonlyMap<string, ReputationMatch>;
+
+export const USER_OVERRIDES_LIST = 'Your overrides';
+
+export const BIAS_LABELS: Record<SourceBias, string> = {
+  'far-left': 'Far left',
+  left: 'Left',
+  'left-center': 'Left-center',
+  center: 'Center',
+  'right-center': 'Right-center',
+  right: 'Right',
+  'far-right': 'Far right',
+};
+
+export const FACTUAL_REPORTING_LABELS: Record<FactualReporting, string> = {
+  'very-high': 'Very high',
+  high: 'High',
+  'mostly-factual': 'Mostly factual',
+  mixed: 'Mixed',
+  low: 'Low',
+  'very-low': 'Very low',
+};
+
+// Reliability of entries whose list gives no score, by factual rating first
+const FACTUAL_RELIABILITY: Record<FactualReporting, number> = {
+  'very-high': 95,
+  high: 85,
+  'mostly-factual': 70,
+  mixed: 45,
+  low: 20,
+  'very-low': 5,
+};
+
+const REPUTATION_RELIABILITY: Record<ListedReputation, number> = {
+  trusted: 85,
+  mixed: 50,
+  satire: 20, // Not meant as news, whatever its intent
+  unreliable: 15,
+};
+
+// Trusted mainstream and fact-checking sources
+const TRUSTED_SOURCES: Record<string, string> = {
+  'reuters.com': 'Major Wire Service',
+  'apnews.com': 'Major Wire Service',
+  'bbc.com': 'Public Broadcaster',
+  'bbc.co.uk': 'Public Broadcaster',
+  'npr.org': 'Public Broadcaster',
+  'pbs.org': 'Public Broadcaster',
+  'nytimes.com': 'Major Newspaper',
+  'washingtonpost.com': 'Major Newspaper',
+  'wsj.com': 'Major Newspaper',
+  'theguardian.com': 'Major Newspaper',
+  'economist.com': 'Major Publication',
+  'nature.com': 'Scientific Journal',
+  'science.org': 'Scientific Journal',
+  'sciencedirect.com': 'Scientific Database',
+  'pubmed.gov': 'Medical Database',
+  'cdc.gov': 'Government Health Agency',
+  'who.int': 'International Health Organization',
+  'factcheck.org': 'Fact-Checking Organization',
+  'snopes.com': 'Fact-Checking Organization',
+  'politifact.com': 'Fact-Checking Organization',
+  'fullfact.org': 'Fact-Checking Organization',
+  'usa.gov': 'Government Source',
+};
+
+// Known satire sites (not necessarily bad, but not real news)
+const SATIRE_SOURCES: Record<string, string> = {
+  'theonion.com': 'Satire',
+  'babylonbee.com': 'Satire',
+  'clickhole.com': 'Satire',
+  'thebeaverton.com': 'Satire',
+  'waterfordwhispersnews.com': 'Satire',
+  'newsthump.com': 'Satire',
+  'thedailymash.co.uk': 'Satire',
+};
+
+// Known unreliable or heavily biased sources
+const UNRELIABLE_SOURCES: Record<string, string> = {
+  'infowars.com': 'Conspiracy/Misinformation',
+  'naturalnews.com': 'Health Misinformation',
+  'worldnewsdailyreport.com': 'Fake News',
+  'beforeitsnews.com': 'Conspiracy/Misinformation',
+  'yournewswire.com': 'Fake News',
+  'newspunch.com': 'Fake News',
+  'collective-evolution.com': 'Pseudoscience',
+};
+
+const toEntries = (sources: Record<string, string>, reputation: ListedReputation): ReputationEntry[] =>
+  Object.entries(sources).map(([domain, category]) => ({ domain, reputation, category }));
+
+export const BUILTIN_REPUTATION_LIST: ReputationList = {
+  id: 'built-in',
+  name: 'Built-in list',
+  version: '1',
+  entries: [
+    ...toEntries(TRUSTED_SOURCES, 'trusted'),
+    ...toEntries(SATIRE_SOURCES, 'satire'),
+    ...toEntries(UNRELIABLE_SOURCES, 'unreliable'),
+  ],
+};
+
+// Dataset labels, compared lowercase with "_" and "-" read as spaces
+const REPUTATION_LABELS: Record<string, ListedReputation> = {
+  trusted: 'trusted', reliable: 'trusted', credible: 'trusted', reputable: 'trusted', 'generally reliable': 'trusted',
+  high: 'trusted', 'very high': 'trusted', 'mostly factual': 'trusted', 'least biased': 'trusted', 'pro science': 'trusted',
+  satire: 'satire', parody: 'satire', humor: 'satire', humour: 'satire',
+  mixed: 'mixed', medium: 'mixed', moderate: 'mixed', 'no consensus': 'mixed', 'mixed reliability': 'mixed',
+  unreliable: 'unreliable', untrusted: 'unreliable', 'generally unreliable': 'unreliable', deprecated: 'unreliable',
+  low: 'unreliable', 'very low': 'unreliable', questionable: 'unreliable', 'questionable source': 'unreliable',
+  conspiracy: 'unreliable', 'conspiracy pseudoscience': 'unreliable', pseudoscience: 'unreliable',
+  fake: 'unreliable', 'fake news': 'unreliable', hoax: 'unreliable', propaganda: 'unreliable', blacklisted: 'unreliable',
+};
+
+const BIAS_VALUES: Record<string, SourceBias> = {
+  'far left': 'far-left', 'extreme left': 'far-left',
+  left: 'left', 'left center': 'left-center', 'center left': 'left-center', 'lean left': 'left-center',
+  center: 'center', 'least biased': 'center', neutral: 'center',
+  'right center': 'right-center', 'center right': 'right-center', 'lean right': 'right-center',
+  right: 'right', 'far right': 'far-right', 'extreme right': 'far-right',
+};
+
+const FACTUAL_VALUES: Record<string, FactualReporting> = {
+  'very high': 'very-high', high: 'high', 'mostly factual': 'mostly-factual',
+  mixed: 'mixed', low: 'low', 'very low': 'very-low',
+};
+
+const DOMAIN_COLUMNS = ['domain', 'url', 'site', 'website', 'source_url', 'host', 'source'];
+// Tried in order until one holds a known label, so a "satire" bias wins over a factual rating
+const REPUTATION_COLUMNS = ['reputation', 'rating', 'credibility', 'reliability', 'label', 'type', 'bias', 'factual_reporting', 'factual', 'factuality'];
+const CATEGORY_COLUMNS = ['category', 'notes', 'description'];
+const SCORE_COLUMNS = ['reliability_score', 'reliability', 'credibility_score', 'trust_score', 'score'];
+const BIAS_COLUMNS = ['bias', 'leaning', 'lean', 'political_bias', 'bias_rating'];
+const FACTUAL_COLUMNS = ['factual_reporting', 'factual', 'factuality', 'factual_rating'];
+
+const MAX_ENTRIES = 20000;
+
+const listFileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  version: z.union([z.string(), z.number()]).optional(),
+  date: z.string().max(40).optional(),
+  entries: z.array(z.record(z.string(), z.unknown())).max(MAX_ENTRIES),
+});
+
+/**
+ * Host form of a list entry or user input: "https://www.BBC.co.uk/news" -> "bbc.co.uk"
+ */
+export function normalizeReputationDomain(input: string): string | undefined {
+  const host = normalizeHost(input)?.replace(/^www\./, '');
+  return host?.includes('.') ? host : undefined;
+}
+
+function readValue<T>(values: Record<string, T>, value: unknown): T | undefined {
+  if (typeof value !== 'string') return undefined;
+  return values[value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ')];
+}
+
+const readLabel = (value: unknown) => readValue(REPUTATION_LABELS, value);
+
+/**
+ * A 0-100 score from a number or numeric string; anything else is ignored
+ */
+function readScore(value: unknown): number | undefined {
+  const score = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(score) && score >= 0 && score <= 100 ? score : undefined;
+}
+
+function reputationFromReliability(reliability: number): ListedReputation {
+  if (reliability >= 70) return 'trusted';
+  return reliability >= 40 ? 'mixed' : 'unreliable';
+}
+
+function toEntry(fields: Record<string, unknown>): ReputationEntry | undefined {
+  const pick = (columns: string[]) => columns.map(column => fields[column]).find(value => typeof value === 'string' && value.trim());
+  const first = <T>(columns: string[], read: (value: unknown) => T | undefined) =>
+    columns.map(column => read(fields[column])).find(value => value !== undefined);
+
+  const domain = normalizeReputationDomain(String(pick(DOMAIN_COLUMNS) ?? ''));
+  const reliability = first(SCORE_COLUMNS, readScore);
+  const bias = first(BIAS_COLUMNS, value => readValue(BIAS_VALUES, value));
+  const factualReporting = first(FACTUAL_COLUMNS, value => readValue(FACTUAL_VALUES, value));
+  const labels = REPUTATION_COLUMNS.map(column => fields[column]);
+  const reputation = labels.map(readLabel).find(Boolean) ?? (reliability !== undefined ? reputationFromReliability(reliability) : undefined);
+  if (!domain || !reputation) return undefined;
+
+  const category = pick(CATEGORY_COLUMNS) ?? labels.find(label => readLabel(label) === reputation);
+  return {
+    domain,
+    reputation,
+    category: category === undefined ? undefined : String(category).trim().slice(0, 80),
+    ...(reliability !== undefined && { reliability }),
+    ...(bias && { bias }),
+    ...(factualReporting && { factualReporting }),
+  };
+}
+
+function lowercaseKeys(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value]));
+}
+
+function parseCsvEntries(content: string): ReputationEntry[] {
+  const [headers, ...records] = parseCsv(content);
+  if (!headers || findColumn(headers, DOMAIN_COLUMNS) === -1) {
+    throw new Error(`No domain column found; expected one of: ${DOMAIN_COLUMNS.join(', ')}`);
+  }
+  const keys = headers.map(header => header.trim().toLowerCase());
+  return records
+    .slice(0, MAX_ENTRIES)
+    .map(record => toEntry(Object.fromEntries(keys.map((key, i) => [key, record[i]]))))
+    .filter((entry): entry is ReputationEntry => entry !== undefined);
+}
+
+/**
+ * Parse a reputation list file. JSON files are `{ name, version, date,
+ * entries: [...] }` or a bare array of entries; CSV files need a header row.
+ * Entries need a domain and either a reputation label such as "reliable",
+ * "satire" or "low" or a 0-100 reliability score; bias and factual
+ * reporting columns are read when present. Other rows are skipped
+ * @throws Error with a readable message when no entries can be read
+ */
+export function parseReputationList(content: string, fileName: string): ReputationList {
+  const baseName = fileName.replace(/\.[^.]+$/, '').trim() || 'Imported list';
+  let name = baseName;
+  let version: string | undefined;
+  let date = baseName.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  let entries: ReputationEntry[];
+
+  if (/^\s*[[{]/.test(content)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('Reputation list is not valid JSON');
+    }
+
+    const parsed = listFileSchema.safeParse(Array.isArray(data) ? { entries: data } : data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid reputation list at "${issue.path.join('.') || 'root'}": ${issue.message}`);
+    }
+    name = parsed.data.name ?? name;
+    version = parsed.data.version?.toString();
+    date = parsed.data.date ?? date;
+    entries = parsed.data.entries
+      .map(entry => toEntry(lowercaseKeys(entry)))
+      .filter((entry): entry is ReputationEntry => entry !== undefined);
+  } else {
+    entries = parseCsvEntries(content);
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No domains with a recognizable reputation found in this file');
+  }
+  return { id: name.toLowerCase(), name, version, date, importedAt: Date.now(), entries };
+}
+
+/**
+ * Short description of where a verdict came from, e.g. "MBFC v2.1, 2024-03-01"
+ */
+export function formatProvenance(provenance: ReputationProvenance): string {
+  const version = provenance.version ? ` v${provenance.version}` : '';
+  return `${provenance.list}${version}${provenance.date ? `, ${provenance.date}` : ''}`;
+}
+
+/**
+ * Merge lists into one lookup; later lists take precedence over earlier
+ * ones and user overrides over every list
+ */
+export function buildReputationIndex(lists: ReputationList[], overrides: ReputationOverrides = {}): ReputationIndex {
+  const index = new Map<string, ReputationMatch>();
+
+  for (const list of lists) {
+    const provenance = { list: list.name, version: list.version, date: list.date };
+    for (const entry of list.entries) {
+      index.set(entry.domain, {
+        reputation: entry.reputation,
+        category: entry.category || list.name,
+        reliability: entry.reliability
+          ?? (entry.factualReporting ? FACTUAL_RELIABILITY[entry.factualReporting] : REPUTATION_RELIABILITY[entry.reputation]),
+        bias: entry.bias,
+        factualReporting: entry.factualReporting,
+        provenance,
+      });
+    }
+  }
+
+  for (const [domain, override] of Object.entries(overrides)) {
+    index.set(domain, {
+      reputation: override.reputation,
+      category: override.reputation === 'trusted' ? 'Marked trusted by you' : 'Marked untrusted by you',
+      reliability: REPUTATION_RELIABILITY[override.reputation],
+      provenance: { list: USER_OVERRIDES_LIST, date: new Date(override.updatedAt).toISOString().slice(0, 10) },
+    });
+  }
+
+  return index;
+}
+
+export const DEFAULT_REPUTATION_INDEX = buildReputationIndex([BUILTIN_REPUTATION_LIST]);
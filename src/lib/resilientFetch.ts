@@ -0,0 +1,160 @@
+/**
+ * Resilient Fetch
+ * fetch with a timeout, retries with exponential backoff that honor
+ * Retry-After, cancellation through an AbortSignal, and a client-side rate
+ * limiter so bursts of checks stay within an API's quota
+ */
+
+export interface RetryOptions {
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number; // Doubled on every retry
+  maxDelayMs?: number; // Longer Retry-After waits fail instead
+  limiter?: RateLimiter;
+}
+
+export interface RateLimiter {
+  // Resolves once a request may be sent; rejects if the signal aborts first
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  // Hold every request until the given time, e.g. after a 429
+  pauseUntil: (time: number) => void;
+}
+
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+/**
+ * Wait for `ms`, rejecting with an AbortError if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Allow at most `maxRequests` per sliding `intervalMs` window
+ */
+export function createRateLimiter({ maxRequests, intervalMs }: { maxRequests: number; intervalMs: number }): RateLimiter {
+  const sent: number[] = [];
+  let pausedUntil = 0;
+
+  const acquire = async (signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+      const now = Date.now();
+      while (sent.length > 0 && now - sent[0] >= intervalMs) sent.shift();
+
+      if (now >= pausedUntil && sent.length < maxRequests) {
+        sent.push(now);
+        return;
+      }
+      const wait = Math.max(pausedUntil - now, sent.length >= maxRequests ? sent[0] + intervalMs - now : 0);
+      await sleep(Math.max(wait, 1), signal);
+    }
+  };
+
+  return {
+    acquire,
+    pauseUntil: (time) => {
+      pausedUntil = Math.max(pausedUntil, time);
+    },
+  };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * One attempt, aborted when the caller's signal aborts or the timeout passes
+ */
+async function fetchOnce(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    if (signal?.aborted) throw abortError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fetch with retries on network errors, timeouts and 408/429/5xx responses;
+ * the last failed response is returned for the caller to report
+ * @throws DOMException AbortError when the signal aborts
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit & { signal?: AbortSignal } = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const { timeoutMs = 10000, retries = 3, baseDelayMs = 500, maxDelayMs = 30000, limiter } = options;
+  const { signal, ...requestInit } = init;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    await limiter?.acquire(signal);
+
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await fetchOnce(url, requestInit, timeoutMs, signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      failure = error;
+    }
+
+    const retryable = response ? RETRY_STATUSES.has(response.status) : true;
+    if (!retryable || attempt >= retries) {
+      if (response) return response;
+      throw failure;
+    }
+
+    // Exponential backoff with jitter, unless the server says how long to wait
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null);
+    const delay = retryAfter ?? baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+    if (delay > maxDelayMs) {
+      if (response) return response;
+      throw failure;
+    }
+    if (response?.status === 429) limiter?.pauseUntil(Date.now() + delay);
+    await sleep(delay, signal);
+  }
+}
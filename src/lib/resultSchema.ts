@@ -0,0 +1,133 @@
+/**
+ * Result Schema
+ * Strict validation of analysis results read back from storage or a shared
+ * link: every nested field is checked and unknown keys are rejected, so the
+ * report views only ever render values of the shape they expect
+ */
+
+import { z } from 'zod';
+import { AnalysisResult } from '@/lib/analysisEngine';
+
+const spanSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+}).strict();
+
+const emotionalAnalysisSchema = z.object({
+  score: z.number(),
+  triggers: z.array(z.object({
+    category: z.string(),
+    words: z.array(z.string()),
+    intensity: z.number(),
+    spans: z.array(spanSchema).optional(),
+    ignored: z.number().optional(),
+  }).strict()),
+  dominantEmotion: z.string().nullable(),
+  manipulationLevel: z.enum(['low', 'medium', 'high']),
+}).strict();
+
+const sourceSchema = z.object({
+  domain: z.string(),
+  reputation: z.enum(['trusted', 'satire', 'unreliable', 'impersonation', 'mixed', 'unknown']),
+  category: z.string().optional(),
+  reliability: z.number().optional(),
+  bias: z.enum(['far-left', 'left', 'left-center', 'center', 'right-center', 'right', 'far-right']).optional(),
+  factualReporting: z.enum(['very-high', 'high', 'mostly-factual', 'mixed', 'low', 'very-low']).optional(),
+  impersonates: z.string().optional(),
+  redirectChain: z.array(z.string()).optional(),
+  provenance: z.object({
+    list: z.string(),
+    version: z.string().optional(),
+    date: z.string().optional(),
+  }).strict().optional(),
+  spans: z.array(spanSchema).optional(),
+  isPublisher: z.boolean().optional(),
+}).strict();
+
+const sourceCredibilitySchema = z.object({
+  score: z.number(),
+  reliability: z.number().optional(),
+  foundSources: z.array(sourceSchema),
+  overallReputation: z.enum(['trusted', 'mixed', 'untrusted', 'unknown']),
+  factors: z.array(z.string()),
+}).strict();
+
+const claimSchema = z.object({
+  text: z.string(),
+  claimant: z.string().optional(),
+  claimDate: z.string().optional(),
+  rating: z.string(),
+  ratingValue: z.number().optional(),
+  url: z.string(),
+  publisher: z.string(),
+  reviewDate: z.string().optional(),
+  providers: z.array(z.string()).optional(),
+  similarity: z.number().optional(),
+}).strict();
+
+const factCheckSchema = z.object({
+  available: z.boolean(),
+  claims: z.array(claimSchema),
+  query: z.string().optional(),
+  checkedClaims: z.array(spanSchema.extend({
+    signals: z.array(z.enum(['number', 'entity', 'causal', 'comparison', 'reporting'])),
+    claims: z.array(claimSchema),
+  }).strict()).optional(),
+  providers: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    claims: z.number(),
+    error: z.string().optional(),
+  }).strict()).optional(),
+  error: z.string().optional(),
+}).strict();
+
+const articleSchema = z.object({
+  url: z.string(),
+  canonicalUrl: z.string(),
+  title: z.string(),
+  byline: z.string().optional(),
+  publishedAt: z.string().optional(),
+  siteName: z.string().optional(),
+}).strict();
+
+const resultSchema = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  verdict: z.enum(['fake', 'verified', 'uncertain']),
+  confidence: z.number(),
+  reasons: z.array(z.string()),
+  timestamp: z.coerce.date().refine(date => !isNaN(date.getTime()), 'Invalid timestamp'),
+  emotionalAnalysis: emotionalAnalysisSchema.optional(),
+  sourceCredibility: sourceCredibilitySchema.optional(),
+  factCheckResults: factCheckSchema.optional(),
+  article: articleSchema.optional(),
+  score: z.number().optional(),
+  analyzerScores: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    score: z.number(),
+    weight: z.number(),
+    available: z.boolean(),
+  }).strict()).optional(),
+  evidence: z.array(z.object({
+    analyzerId: z.string(),
+    type: z.string(),
+    match: z.string(),
+    description: z.string().optional(),
+    start: z.number().optional(),
+    end: z.number().optional(),
+  }).strict()).optional(),
+  tags: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+}).strict();
+
+/**
+ * Validate an untrusted value as an analysis result (dates are revived);
+ * null when any field, however deeply nested, is missing or malformed
+ */
+export function toAnalysisResult(value: unknown): AnalysisResult | null {
+  const parsed = resultSchema.safeParse(value);
+  return parsed.success ? (parsed.data as AnalysisResult) : null;
+}
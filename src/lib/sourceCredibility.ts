@@ -1,70 +1,70 @@
 /**
  * Source Credibility Module
- * Checks URLs and domain references for credibility indicators
+ * Checks URLs and domain references for credibility indicators, looking
+ * sources up by their registrable domain in the merged reputation lists
  */
 
+import { TextSpan } from '@/lib/textSpans';
+import { parseHost, ParsedHost } from '@/lib/domainParser';
+import { detectImpersonation, IMPERSONATION_TECHNIQUE_LABELS } from '@/lib/lookalikeDomains';
+import { findShortLinks, isShortenerHost, LinkExpansions } from '@/lib/urlShorteners';
+import {
+  BIAS_LABELS,
+  DEFAULT_REPUTATION_INDEX,
+  FactualReporting,
+  ReputationIndex,
+  ReputationProvenance,
+  SourceBias,
+} from '@/lib/reputationLists';
+
 export interface SourceCredibilityResult {
   score: number; // 0-100, higher = less credible (more fake indicators)
+  reliability?: number; // Prominence-weighted reliability of the sources, 0-100; unset without sources
   foundSources: SourceInfo[];
   overallReputation: 'trusted' | 'mixed' | 'untrusted' | 'unknown';
   factors: string[];
 }
 
 export interface SourceInfo {
-  domain: string;
-  reputation: 'trusted' | 'satire' | 'unreliable' | 'mixed' | 'unknown';
+  domain: string; // Registrable domain, e.g. "bbc.co.uk" for news.bbc.co.uk
+  reputation: 'trusted' | 'satire' | 'unreliable' | 'impersonation' | 'mixed' | 'unknown';
   category?: string;
+  reliability?: number; // 0-100, higher = more reliable
+  bias?: SourceBias;
+  factualReporting?: FactualReporting;
+  impersonates?: string; // Trusted domain a lookalike imitates
+  redirectChain?: string[]; // Short link hops that led to this domain
+  provenance?: ReputationProvenance; // Reputation list the verdict came from
+  spans?: TextSpan[]; // Where the domain is referenced in the original text
+  isPublisher?: boolean; // The site the analyzed article was published on
 }
 
-// Trusted mainstream and fact-checking sources
-const TRUSTED_SOURCES: Record<string, string> = {
-  'reuters.com': 'Major Wire Service',
-  'apnews.com': 'Major Wire Service',
-  'bbc.com': 'Public Broadcaster',
-  'bbc.co.uk': 'Public Broadcaster',
-  'npr.org': 'Public Broadcaster',
-  'pbs.org': 'Public Broadcaster',
-  'nytimes.com': 'Major Newspaper',
-  'washingtonpost.com': 'Major Newspaper',
-  'wsj.com': 'Major Newspaper',
-  'theguardian.com': 'Major Newspaper',
-  'economist.com': 'Major Publication',
-  'nature.com': 'Scientific Journal',
-  'science.org': 'Scientific Journal',
-  'sciencedirect.com': 'Scientific Database',
-  'pubmed.gov': 'Medical Database',
-  'cdc.gov': 'Government Health Agency',
-  'who.int': 'International Health Organization',
-  'factcheck.org': 'Fact-Checking Organization',
-  'snopes.com': 'Fact-Checking Organization',
-  'politifact.com': 'Fact-Checking Organization',
-  'fullfact.org': 'Fact-Checking Organization',
-  'gov.uk': 'Government Source',
-  'usa.gov': 'Government Source',
-  'edu': 'Educational Institution',
+// Public suffixes reserved for institutions, by their first label: "edu",
+// "edu.au", "gov.uk", "ac.uk"... A bare "ac" is a country code, not academia
+const INSTITUTIONAL_SUFFIXES: Record<string, string> = {
+  edu: 'Educational Institution',
+  ac: 'Educational Institution',
+  gov: 'Government Source',
+  gob: 'Government Source',
+  gouv: 'Government Source',
+  govt: 'Government Source',
+  mil: 'Government Source',
 };
 
-// Known satire sites (not necessarily bad, but not real news)
-const SATIRE_SOURCES: Record<string, string> = {
-  'theonion.com': 'Satire',
-  'babylonbee.com': 'Satire',
-  'clickhole.com': 'Satire',
-  'thebeaverton.com': 'Satire',
-  'waterfordwhispersnews.com': 'Satire',
-  'newsthump.com': 'Satire',
-  'thedailymash.co.uk': 'Satire',
-};
+// Reliability of sources that are not on any list
+const INSTITUTIONAL_RELIABILITY = 80;
+const IMPERSONATION_RELIABILITY = 5;
+const SUSPICIOUS_RELIABILITY = 35;
+const UNKNOWN_RELIABILITY = 50;
 
-// Known unreliable or heavily biased sources
-const UNRELIABLE_SOURCES: Record<string, string> = {
-  'infowars.com': 'Conspiracy/Misinformation',
-  'naturalnews.com': 'Health Misinformation',
-  'worldnewsdailyreport.com': 'Fake News',
-  'beforeitsnews.com': 'Conspiracy/Misinformation',
-  'yournewswire.com': 'Fake News',
-  'newspunch.com': 'Fake News',
-  'collective-evolution.com': 'Pseudoscience',
-};
+// Citation prominence weights for the aggregate
+const PUBLISHER_WEIGHT = 3;
+const LEAD_WEIGHT = 1.5; // Cited in the first quarter of the text
+const REPEAT_WEIGHT = 0.5; // Per extra citation of the same source
+const MAX_CITATIONS = 3;
+const UNKNOWN_WEIGHT = 0.5; // Unrated sources say little either way
+// Neutral prior, so a single minor source does not decide the score alone
+const PRIOR_WEIGHT = 1;
 
 // Suspicious domain patterns
 const SUSPICIOUS_PATTERNS = [
@@ -76,115 +76,275 @@ const SUSPICIOUS_PATTERNS = [
   /breaking.*\d/i,
 ];
 
+export interface SourceCredibilityOptions {
+  expansions?: LinkExpansions; // Destinations of short links in the text
+  reputation?: ReputationIndex; // Defaults to the built-in list
+}
+
+interface DomainMention {
+  host: ParsedHost;
+  spans: TextSpan[];
+  redirectChain?: string[];
+}
+
+// Host names, including IDN hosts, up to the port or path
+const HOST = String.raw`[\p{L}\p{N}][-\p{L}\p{N}]*(?:\.[\p{L}\p{N}][-\p{L}\p{N}]*)+`;
+
 /**
- * Extract domains from text (URLs and mentions)
+ * Key a source by its registrable domain, or by the whole host for IP
+ * addresses and hosts that are themselves public suffixes
  */
-function extractDomains(text: string): string[] {
-  const domains: string[] = [];
-  
-  // Match full URLs
-  const urlRegex = /https?:\/\/(?:www\.)?([a-zA-Z0-9][-a-zA-Z0-9]*(?:\.[a-zA-Z0-9][-a-zA-Z0-9]*)+)/gi;
+function sourceDomain(host: ParsedHost): string {
+  return host.registrableDomain ?? host.hostname;
+}
+
+/**
+ * Extract domains from text (URLs and mentions) with the spans referencing
+ * them; expanded short links count as their destination
+ */
+function extractDomains(text: string, expansions: LinkExpansions): DomainMention[] {
+  const mentions: DomainMention[] = [];
+
+  const addMention = (host: ParsedHost | undefined, start: number, end: number, redirectChain?: string[]) => {
+    if (!host) return;
+    const span = { start, end, text: text.slice(start, end) };
+    const existing = mentions.find(m => sourceDomain(m.host) === sourceDomain(host));
+    if (!existing) {
+      mentions.push({ host, spans: [span], redirectChain });
+    } else if (!existing.spans.some(s => s.start < end && start < s.end)) {
+      existing.spans.push(span);
+      existing.redirectChain ??= redirectChain;
+    }
+  };
+
+  // Shortened links, scored by where they lead when they could be expanded
+  for (const link of findShortLinks(text)) {
+    const chain = expansions.get(link.url);
+    const destination = chain?.[chain.length - 1] ?? link.url;
+    addMention(parseHost(destination), link.start, link.end, chain);
+  }
+
+  // Match full URLs, including ports and IP hosts
+  const urlRegex = new RegExp(String.raw`https?:\/\/(${HOST}(?::\d+)?)`, 'giu');
   let match;
   while ((match = urlRegex.exec(text)) !== null) {
-    domains.push(match[1].toLowerCase());
+    const host = parseHost(match[1]);
+    if (host && isShortenerHost(host.hostname)) continue;
+    addMention(host, match.index, match.index + match[0].length);
   }
 
   // Match www. domains without protocol
-  const wwwRegex = /www\.([a-zA-Z0-9][-a-zA-Z0-9]*(?:\.[a-zA-Z0-9][-a-zA-Z0-9]*)+)/gi;
+  const wwwRegex = new RegExp(String.raw`www\.(${HOST})`, 'giu');
   while ((match = wwwRegex.exec(text)) !== null) {
-    const domain = match[1].toLowerCase();
-    if (!domains.includes(domain)) {
-      domains.push(domain);
-    }
+    const host = parseHost(match[0]);
+    if (host && isShortenerHost(host.hostname)) continue;
+    addMention(host, match.index, match.index + match[0].length);
   }
 
-  // Match domain mentions (e.g., "according to bbc.com")
-  const mentionRegex = /(?:from|via|source:|according to|reported by)\s+([a-zA-Z0-9][-a-zA-Z0-9]*\.[a-zA-Z]{2,})/gi;
+  // Match domain mentions (e.g., "according to bbc.co.uk"); the suffix has
+  // to be a listed one so "from 3.5" or "via e.g" are not mistaken for domains
+  const mentionRegex = new RegExp(String.raw`(?:from|via|source:|according to|reported by)\s+(${HOST})`, 'giu');
   while ((match = mentionRegex.exec(text)) !== null) {
-    const domain = match[1].toLowerCase();
-    if (!domains.includes(domain)) {
-      domains.push(domain);
-    }
+    const host = parseHost(match[1]);
+    if (!host?.isKnownSuffix || !host.registrableDomain) continue;
+    const end = match.index + match[0].length;
+    addMention(host, end - match[1].length, end);
   }
 
-  return domains;
+  return mentions;
 }
 
 /**
- * Check a single domain's reputation
+ * Check a single host's reputation; list entries match the host itself or
+ * any parent domain down to the registrable domain, so lookalikes such as
+ * bbc.co.uk.example.com never inherit a listed reputation
  */
-function checkDomainReputation(domain: string): SourceInfo {
-  // Check exact matches first
-  if (TRUSTED_SOURCES[domain]) {
-    return { domain, reputation: 'trusted', category: TRUSTED_SOURCES[domain] };
-  }
-  if (SATIRE_SOURCES[domain]) {
-    return { domain, reputation: 'satire', category: SATIRE_SOURCES[domain] };
-  }
-  if (UNRELIABLE_SOURCES[domain]) {
-    return { domain, reputation: 'unreliable', category: UNRELIABLE_SOURCES[domain] };
+function checkDomainReputation(host: ParsedHost, reputation: ReputationIndex, trustedDomains: string[]): SourceInfo {
+  const domain = sourceDomain(host);
+  if (isShortenerHost(host.hostname)) {
+    return { domain, reputation: 'unknown', category: 'URL Shortener, destination not checked', reliability: UNKNOWN_RELIABILITY };
   }
 
-  // Check if it's an .edu or .gov domain
-  if (domain.endsWith('.edu')) {
-    return { domain, reputation: 'trusted', category: 'Educational Institution' };
+  const labels = host.hostname.split('.');
+  const depth = domain.split('.').length;
+  const candidates = labels.slice(0, labels.length - depth + 1).map((_, i) => labels.slice(i).join('.'));
+
+  // Most specific entry first
+  for (const candidate of candidates) {
+    const match = reputation.get(candidate);
+    if (match) {
+      return {
+        domain,
+        reputation: match.reputation,
+        category: match.category,
+        reliability: match.reliability,
+        ...(match.bias && { bias: match.bias }),
+        ...(match.factualReporting && { factualReporting: match.factualReporting }),
+        provenance: match.provenance,
+      };
+    }
   }
-  if (domain.endsWith('.gov') || domain.endsWith('.gov.uk') || domain.endsWith('.gov.au')) {
-    return { domain, reputation: 'trusted', category: 'Government Source' };
+
+  // Check if it's on an educational or government suffix
+  const [first, ...rest] = host.publicSuffix.split('.');
+  if (INSTITUTIONAL_SUFFIXES[first] && (rest.length > 0 || first !== 'ac')) {
+    return { domain, reputation: 'trusted', category: INSTITUTIONAL_SUFFIXES[first], reliability: INSTITUTIONAL_RELIABILITY };
   }
 
-  // Check for trusted source subdomains
-  for (const trustedDomain of Object.keys(TRUSTED_SOURCES)) {
-    if (domain.endsWith('.' + trustedDomain) || domain === trustedDomain) {
-      return { domain, reputation: 'trusted', category: TRUSTED_SOURCES[trustedDomain] };
-    }
+  // Check for lookalikes of trusted outlets
+  const impersonation = detectImpersonation(host, trustedDomains);
+  if (impersonation) {
+    return {
+      domain,
+      reputation: 'impersonation',
+      category: `Lookalike of ${impersonation.target} (${IMPERSONATION_TECHNIQUE_LABELS[impersonation.technique]})`,
+      reliability: IMPERSONATION_RELIABILITY,
+      impersonates: impersonation.target,
+    };
   }
 
   // Check suspicious patterns
   for (const pattern of SUSPICIOUS_PATTERNS) {
     if (pattern.test(domain)) {
-      return { domain, reputation: 'mixed', category: 'Suspicious Domain Pattern' };
+      return { domain, reputation: 'mixed', category: 'Suspicious Domain Pattern', reliability: SUSPICIOUS_RELIABILITY };
     }
   }
 
-  return { domain, reputation: 'unknown', category: 'Unknown Source' };
+  return { domain, reputation: 'unknown', category: 'Unknown Source', reliability: UNKNOWN_RELIABILITY };
 }
 
 /**
- * Analyzes text for source credibility
+ * Weight of a source in the aggregate: the publisher counts most, then
+ * sources cited early and often. Unreliable sources weigh up to twice as
+ * much, so a trusted link cannot cancel one out
  */
-export function analyzeSourceCredibility(text: string): SourceCredibilityResult {
-  const domains = extractDomains(text);
-  const foundSources: SourceInfo[] = domains.map(checkDomainReputation);
+function sourceWeight(source: SourceInfo, textLength: number): number {
+  let weight = PUBLISHER_WEIGHT;
+  if (!source.isPublisher) {
+    const spans = source.spans ?? [];
+    const citations = Math.min(Math.max(spans.length, 1), MAX_CITATIONS);
+    const lead = spans.some(span => span.start < textLength / 4) ? LEAD_WEIGHT : 1;
+    weight = (1 + (citations - 1) * REPEAT_WEIGHT) * lead;
+  }
+  if (source.reputation === 'unknown') weight *= UNKNOWN_WEIGHT;
+
+  const reliability = source.reliability ?? UNKNOWN_RELIABILITY;
+  return weight * (1 + Math.max(0, 50 - reliability) / 50);
+}
+
+/**
+ * Prominence-weighted reliability of the sources, pulled toward neutral by the prior
+ */
+function aggregateReliability(sources: SourceInfo[], textLength: number): number {
+  let total = UNKNOWN_RELIABILITY * PRIOR_WEIGHT;
+  let weights = PRIOR_WEIGHT;
+  for (const source of sources) {
+    const weight = sourceWeight(source, textLength);
+    total += (source.reliability ?? UNKNOWN_RELIABILITY) * weight;
+    weights += weight;
+  }
+  return total / weights;
+}
+
+/**
+ * Source domain of a URL: its registrable domain, e.g. "cnn.com" for
+ * https://edition.cnn.com/...
+ */
+export function domainFromUrl(url: string): string | undefined {
+  const host = parseHost(url);
+  return host && sourceDomain(host);
+}
+
+/**
+ * Analyzes text for source credibility, optionally treating the page the
+ * text was published on as a source and scoring short links by their
+ * expanded destinations
+ */
+export function analyzeSourceCredibility(
+  text: string,
+  publisherUrl?: string,
+  { expansions = new Map(), reputation = DEFAULT_REPUTATION_INDEX }: SourceCredibilityOptions = {}
+): SourceCredibilityResult {
+  const trustedDomains = [...reputation].filter(([, match]) => match.reputation === 'trusted').map(([domain]) => domain);
+  const checkHost = (host: ParsedHost) => checkDomainReputation(host, reputation, trustedDomains);
+
+  const mentions = extractDomains(text, expansions);
+  const foundSources: SourceInfo[] = mentions.map(({ host, spans, redirectChain }) => ({
+    ...checkHost(host),
+    spans,
+    ...(redirectChain && { redirectChain })
+  }));
   const factors: string[] = [];
+
+  const publisherHost = publisherUrl ? parseHost(publisherUrl) : undefined;
+  if (publisherHost) {
+    const publisherDomain = sourceDomain(publisherHost);
+    const existing = foundSources.findIndex(s => s.domain === publisherDomain);
+    const publisher = existing === -1
+      ? { ...checkHost(publisherHost), spans: [] }
+      : foundSources.splice(existing, 1)[0];
+    foundSources.unshift({ ...publisher, isPublisher: true });
+    factors.push(`Published on ${publisherDomain} (${publisher.reputation} source)`);
+  }
   
-  let score = 50; // Start neutral
+  // The inverse of the sources' weighted reliability; neutral without sources
+  const reliability = foundSources.length > 0 ? Math.round(aggregateReliability(foundSources, text.length)) : undefined;
+  let score = reliability === undefined ? 50 : 100 - reliability;
 
   // Count by reputation
   const trusted = foundSources.filter(s => s.reputation === 'trusted');
   const satire = foundSources.filter(s => s.reputation === 'satire');
   const unreliable = foundSources.filter(s => s.reputation === 'unreliable');
+  const impersonating = foundSources.filter(s => s.reputation === 'impersonation');
   const mixed = foundSources.filter(s => s.reputation === 'mixed');
 
-  // Adjust score based on sources found
+  // Describe the sources found; the score comes from their reliability above
   if (trusted.length > 0) {
-    score -= trusted.length * 20;
     factors.push(`References ${trusted.length} trusted source(s): ${trusted.map(s => s.domain).join(', ')}`);
   }
 
   if (satire.length > 0) {
-    score += satire.length * 30;
     factors.push(`Contains satire source(s): ${satire.map(s => s.domain).join(', ')}`);
   }
 
   if (unreliable.length > 0) {
-    score += unreliable.length * 40;
     factors.push(`Contains known unreliable source(s): ${unreliable.map(s => s.domain).join(', ')}`);
   }
 
+  if (impersonating.length > 0) {
+    factors.push(`Impersonates trusted outlet(s): ${impersonating.map(s => `${s.domain} (posing as ${s.impersonates})`).join(', ')}`);
+  }
+
   if (mixed.length > 0) {
-    score += mixed.length * 15;
-    factors.push(`Contains suspicious domain pattern(s): ${mixed.map(s => s.domain).join(', ')}`);
+    const listed = mixed.filter(s => s.provenance);
+    const patterns = mixed.filter(s => !s.provenance);
+    if (listed.length > 0) {
+      factors.push(`Contains source(s) of mixed reliability: ${listed.map(s => s.domain).join(', ')}`);
+    }
+    if (patterns.length > 0) {
+      factors.push(`Contains suspicious domain pattern(s): ${patterns.map(s => s.domain).join(', ')}`);
+    }
+  }
+
+  const partisan = foundSources.flatMap(s =>
+    s.bias && s.bias !== 'center' ? [`${s.domain} (${BIAS_LABELS[s.bias].toLowerCase()})`] : []
+  );
+  if (partisan.length > 0) {
+    factors.push(`Partisan-leaning source(s): ${partisan.join(', ')}`);
+  }
+
+  if (reliability !== undefined) {
+    factors.push(`Weighted source reliability: ${reliability}/100 across ${foundSources.length} source(s)`);
+  }
+
+  const expanded = foundSources.filter(s => s.redirectChain);
+  if (expanded.length > 0) {
+    factors.push(`Followed shortened link(s) to: ${expanded.map(s => s.domain).join(', ')}`);
+  }
+
+  const unexpanded = foundSources.filter(s => isShortenerHost(s.domain));
+  if (unexpanded.length > 0) {
+    factors.push(`Shortened link(s) hide their destination: ${unexpanded.map(s => s.domain).join(', ')}`);
   }
 
   // If no sources at all
@@ -206,7 +366,7 @@ export function analyzeSourceCredibility(text: string): SourceCredibilityResult
 
   // Determine overall reputation
   let overallReputation: 'trusted' | 'mixed' | 'untrusted' | 'unknown';
-  if (unreliable.length > 0 || score >= 70) {
+  if (unreliable.length > 0 || impersonating.length > 0 || score >= 70) {
     overallReputation = 'untrusted';
   } else if (trusted.length > 0 && unreliable.length === 0 && score < 30) {
     overallReputation = 'trusted';
@@ -218,6 +378,7 @@ export function analyzeSourceCredibility(text: string): SourceCredibilityResult
 
   return {
     score,
+    reliability,
     foundSources,
     overallReputation,
     factors
@@ -0,0 +1,207 @@
+/**
+ * Text Matcher
+ * Tokenizer-based phrase matching with word boundaries, light stemming and
+ * negation/quotation scopes, so "now" does not match "know" and
+ * "not shocking" is not counted as sensationalism
+ */
+
+import { TextSpan } from '@/lib/textSpans';
+
+export interface Token {
+  text: string;
+  stem: string;
+  inflected: boolean; // The stem differs from the word ("attacks", "breaking")
+  start: number;
+  end: number;
+}
+
+export interface TokenizedText {
+  text: string;
+  tokens: Token[];
+  quoteRanges: { start: number; end: number }[];
+}
+
+export interface PhraseMatch extends TextSpan {
+  phrase: string;
+  negated: boolean; // Preceded by a negation cue in the same clause
+  quoted: boolean; // Inside a quotation (reported speech)
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['-][\p{L}\p{N}]+)*/gu;
+
+const NEGATION_CUES = new Set([
+  'not', 'no', 'never', 'nothing', 'neither', 'nor', 'without', 'hardly', 'barely', 'none'
+]);
+
+// How many tokens after a negation cue it still applies to
+const NEGATION_WINDOW = 3;
+
+const CLAUSE_BREAK = /[.,;:!?()"“”]/;
+
+// Stems shorter than this keep their final 'e', so "hat" and "hate" stay apart
+const MIN_STEM_LENGTH = 4;
+
+// Consonant-vowel-consonant remainder of a short word that lost its 'e' ("hat" from "hated")
+const SHORT_CVC = /^[^aeiou][aeiou][^aeiouwxy]$/;
+
+// The 'k' spelled into inflections of words ending in -ic ("panicking", "trafficked");
+// the vowel before keeps one-syllable words such as "kick" intact
+const ADDED_K = /([aeiou][^aeiou]+i)ck$/;
+
+/**
+ * Reduce a word to a crude stem so simple inflections match
+ * (attacks -> attack, hated/hating -> hate, evacuated/evacuate -> evacuat,
+ * panicking -> panic, outrageous -> outrag)
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase().replace(/’/g, '\'');
+  if (w.length <= 3) return w;
+
+  if (w.endsWith('ies') && w.length > 4) {
+    w = w.slice(0, -3) + 'y';
+  } else if (w.endsWith('ing') && w.length > 5) {
+    w = w.slice(0, -3);
+    if (SHORT_CVC.test(w)) return `${w}e`;
+    w = w.replace(ADDED_K, '$1c');
+  } else if (w.endsWith('ed') && w.length > 4) {
+    w = w.slice(0, -2);
+    if (SHORT_CVC.test(w)) return `${w}e`;
+    w = w.replace(ADDED_K, '$1c');
+  } else if (w.endsWith('ous') && w.length > 6) {
+    // Adjectives share the noun's stem: outrageous -> outrage -> outrag
+    w = w.slice(0, -3);
+  } else if (w.endsWith('es') && /(?:sh|ch|x|z|ss)es$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/[sui]s$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  // Drop a trailing silent 'e' so "debate", "debated" and "debating" share a stem
+  if (w.length > MIN_STEM_LENGTH && w.endsWith('e')) {
+    w = w.slice(0, -1);
+  }
+  return w;
+}
+
+/**
+ * Whether stemming changed the word; bare stems such as "break" or "wick"
+ * do not match inflected lexicon phrases such as "breaking" or "wicked"
+ */
+function isInflected(word: string, wordStem: string): boolean {
+  return wordStem !== word.toLowerCase().replace(/’/g, '\'');
+}
+
+function isNegationCue(token: Token): boolean {
+  const lower = token.text.toLowerCase().replace(/’/g, '\'');
+  return NEGATION_CUES.has(lower) || lower.endsWith('n\'t');
+}
+
+/**
+ * Find the ranges enclosed in double quotes (straight or curly)
+ */
+function findQuoteRanges(text: string): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  const quotePattern = /"([^"]*)"|“([^”]*)”/g;
+  let match;
+  while ((match = quotePattern.exec(text)) !== null) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+}
+
+/**
+ * Split text into word tokens with offsets and stems
+ */
+export function tokenize(text: string): TokenizedText {
+  const normalized = text.replace(/’/g, '\'');
+  const tokens = Array.from(normalized.matchAll(WORD_PATTERN), match => {
+    const wordStem = stem(match[0]);
+    return {
+      text: text.slice(match.index, match.index + match[0].length),
+      stem: wordStem,
+      inflected: isInflected(match[0], wordStem),
+      start: match.index,
+      end: match.index + match[0].length,
+    };
+  });
+  return { text, tokens, quoteRanges: findQuoteRanges(text) };
+}
+
+type PhraseWord = Pick<Token, 'stem' | 'inflected'>;
+
+const phraseStemCache = new Map<string, PhraseWord[]>();
+
+function phraseStems(phrase: string): PhraseWord[] {
+  let stems = phraseStemCache.get(phrase);
+  if (!stems) {
+    stems = Array.from(phrase.replace(/’/g, '\'').matchAll(WORD_PATTERN), m => {
+      const wordStem = stem(m[0]);
+      return { stem: wordStem, inflected: isInflected(m[0], wordStem) };
+    });
+    phraseStemCache.set(phrase, stems);
+  }
+  return stems;
+}
+
+function matchesWord(token: Token, word: PhraseWord): boolean {
+  return token.stem === word.stem && (!word.inflected || token.inflected);
+}
+
+function isNegated(tokenized: TokenizedText, startIndex: number, phraseTokens: Set<number>): boolean {
+  const { text, tokens } = tokenized;
+  for (let i = startIndex - 1; i >= Math.max(0, startIndex - NEGATION_WINDOW); i--) {
+    // Stop at clause boundaries between the cue and the match
+    if (CLAUSE_BREAK.test(text.slice(tokens[i].end, tokens[i + 1].start))) {
+      return false;
+    }
+    // Cues inside another matched phrase ("you won't believe") belong to that phrase
+    if (isNegationCue(tokens[i]) && !phraseTokens.has(i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Match whole-word phrases against tokenized text. Matches contained in a
+ * longer match ("now" inside "act now") are dropped.
+ */
+export function matchPhrases(tokenized: TokenizedText, phrases: string[]): PhraseMatch[] {
+  const { text, tokens, quoteRanges } = tokenized;
+  const found: { phrase: string; first: number; last: number }[] = [];
+
+  for (const phrase of phrases) {
+    const stems = phraseStems(phrase);
+    if (stems.length === 0) continue;
+
+    for (let i = 0; i + stems.length <= tokens.length; i++) {
+      if (stems.every((word, offset) => matchesWord(tokens[i + offset], word))) {
+        found.push({ phrase, first: i, last: i + stems.length - 1 });
+      }
+    }
+  }
+
+  const kept = found.filter(m => !found.some(other =>
+    other !== m && other.first <= m.first && m.last <= other.last && other.last - other.first > m.last - m.first
+  ));
+
+  const phraseTokens = new Set<number>();
+  kept.forEach(m => {
+    for (let i = m.first; i <= m.last; i++) phraseTokens.add(i);
+  });
+
+  return kept
+    .map(({ phrase, first, last }) => {
+      const start = tokens[first].start;
+      const end = tokens[last].end;
+      return {
+        phrase,
+        start,
+        end,
+        text: text.slice(start, end),
+        negated: isNegated(tokenized, first, phraseTokens),
+        quoted: quoteRanges.some(r => r.start < start && end < r.end),
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
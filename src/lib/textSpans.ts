@@ -0,0 +1,22 @@
+/**
+ * Text Span Utilities
+ * Character-offset helpers shared by the analyzers for evidence highlighting
+ */
+
+export interface TextSpan {
+  start: number; // Inclusive character offset
+  end: number; // Exclusive character offset
+  text: string;
+}
+
+/**
+ * Collect the spans of every regex match in the text
+ */
+export function findPatternSpans(text: string, pattern: RegExp): TextSpan[] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+  return Array.from(text.matchAll(new RegExp(pattern.source, flags)), match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    text: match[0],
+  }));
+}
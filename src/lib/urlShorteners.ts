@@ -0,0 +1,59 @@
+/**
+ * URL Shortener Module
+ * Recognizes links from URL shortening services, whose own domain says
+ * nothing about where they lead
+ */
+
+import { parseHost } from '@/lib/domainParser';
+import { TextSpan } from '@/lib/textSpans';
+
+export const SHORTENER_DOMAINS = new Set([
+  'bit.ly', 'bitly.com', 't.co', 'tinyurl.com', 'goo.gl', 'ow.ly', 'buff.ly', 'is.gd', 'v.gd',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'lnkd.in', 'fb.me', 'dlvr.it', 'ift.tt',
+  'trib.al', 'wp.me', 'amzn.to', 't.ly', 'rb.gy', 's.id', 'bl.ink', 'tr.im', 'shorte.st', 'adf.ly',
+]);
+
+export interface ShortLink extends TextSpan {
+  url: string; // Normalized link, used to key expansions
+}
+
+// Expanded links keyed by normalized short link; each chain starts with the
+// short link and ends with the final destination
+export type LinkExpansions = ReadonlyMap<string, string[]>;
+
+const SHORT_LINK_PATTERN = /(?:https?:\/\/)?(?:www\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)+)\/[\w\-.~%]+/gi;
+
+export function isShortenerHost(hostname: string): boolean {
+  return SHORTENER_DOMAINS.has(hostname.replace(/^www\./, ''));
+}
+
+/**
+ * Normalized form of a short link: https scheme, lowercase host, no www.
+ */
+export function normalizeShortLink(link: string): string | undefined {
+  const withProtocol = /^https?:\/\//i.test(link) ? link : `https://${link}`;
+  try {
+    const url = new URL(withProtocol);
+    url.protocol = 'https:';
+    url.hostname = url.hostname.replace(/^www\./, '');
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Shortened links in the text, with or without a scheme ("bit.ly/3xYz")
+ */
+export function findShortLinks(text: string): ShortLink[] {
+  const links: ShortLink[] = [];
+  for (const match of text.matchAll(SHORT_LINK_PATTERN)) {
+    const host = parseHost(match[1]);
+    if (!host || !isShortenerHost(host.hostname)) continue;
+
+    const raw = match[0].replace(/[.,;:!?)]+$/, '');
+    const url = normalizeShortLink(raw);
+    if (url) links.push({ start: match.index, end: match.index + raw.length, text: raw, url });
+  }
+  return links;
+}
@@ -0,0 +1,179 @@
+import { useRef } from 'react';
+import { useBatchAnalysis } from '@/hooks/useBatchAnalysis';
+import { useScoringSettings } from '@/hooks/useScoringSettings';
+import { useLexicon } from '@/hooks/useLexicon';
+import { useReputationLists } from '@/hooks/useReputationLists';
+import { batchResultsToCsv, batchResultsToJson } from '@/lib/batch';
+import { downloadFile } from '@/lib/download';
+import { PageLayout } from '@/components/PageLayout';
+import { BatchResultsTable } from '@/components/BatchResultsTable';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Layers, Upload, Play, Square, Download, RotateCcw, AlertTriangle, FileSpreadsheet } from 'lucide-react';
+
+const Batch = () => {
+  const { settings } = useScoringSettings();
+  const { lexicon } = useLexicon();
+  const { reputation } = useReputationLists();
+  const {
+    rows,
+    fileName,
+    results,
+    progress,
+    isRunning,
+    error,
+    loadFile,
+    start,
+    cancel,
+    reset,
+  } = useBatchAnalysis({ scoring: settings, lexicon, reputation });
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const counts = {
+    fake: results.filter(r => r.result?.verdict === 'fake').length,
+    uncertain: results.filter(r => r.result?.verdict === 'uncertain').length,
+    verified: results.filter(r => r.result?.verdict === 'verified').length,
+    failed: results.filter(r => r.error).length,
+  };
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+  const baseName = fileName?.replace(/\.[^.]+$/, '') ?? 'batch';
+
+  return (
+    <PageLayout department="Batch Verification Desk" icon={Layers}>
+      <div className="space-y-8 max-w-5xl mx-auto">
+        {/* Upload */}
+        <div className="border-2 border-foreground bg-card relative overflow-hidden">
+          <div className="absolute inset-0 newspaper-texture opacity-30 pointer-events-none" />
+          <div className="bg-foreground text-background px-4 py-3 flex items-center gap-3">
+            <FileSpreadsheet className="h-5 w-5" />
+            <h2 className="font-headline font-bold uppercase tracking-wider text-sm">
+              Submit a Stack of Stories
+            </h2>
+          </div>
+
+          <div className="p-6 relative space-y-4">
+            <p className="font-body text-sm text-muted-foreground leading-relaxed">
+              Upload a CSV with a <span className="font-mono">text</span> column, or a JSONL file with one
+              {' '}<span className="font-mono">{'{"text": ...}'}</span> object per line. Optional{' '}
+              <span className="font-mono">id</span> and <span className="font-mono">url</span> columns are kept
+              with each result; the URL's domain is scored as the publishing source.
+            </p>
+
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.jsonl,.ndjson,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = '';
+              }}
+            />
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                variant="outline"
+                className="rounded-none border-2 border-foreground font-headline uppercase tracking-wider"
+                onClick={() => fileInput.current?.click()}
+                disabled={isRunning}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Choose File
+              </Button>
+              {fileName && (
+                <span className="font-mono text-sm">
+                  {fileName} · {rows.length} row{rows.length === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive" className="border-2 rounded-none">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription className="font-body">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {rows.length > 0 && (
+              <div className="flex flex-wrap gap-3 border-t border-border pt-4">
+                {isRunning ? (
+                  <Button variant="destructive" className="rounded-none font-headline uppercase tracking-wider" onClick={cancel}>
+                    <Square className="mr-2 h-4 w-4" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button className="rounded-none font-headline uppercase tracking-wider" onClick={start}>
+                    <Play className="mr-2 h-4 w-4" />
+                    {results.length > 0 ? 'Run Again' : 'Verify All'}
+                  </Button>
+                )}
+                <Button variant="ghost" className="rounded-none" onClick={reset} disabled={isRunning}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Clear
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Progress and results */}
+        {(isRunning || results.length > 0) && (
+          <div className="border-2 border-foreground bg-card">
+            <div className="bg-foreground text-background px-4 py-3 flex items-center justify-between">
+              <h2 className="font-headline font-bold uppercase tracking-wider text-sm">
+                Desk Report
+              </h2>
+              <span className="font-mono text-xs opacity-70">
+                {progress.completed}/{progress.total}
+              </span>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="space-y-2">
+                <Progress value={percent} className="h-3 rounded-none" />
+                <div className="flex flex-wrap gap-4 text-xs font-body text-muted-foreground">
+                  <span><span className="font-bold text-destructive">{counts.fake}</span> disputed</span>
+                  <span><span className="font-bold text-warning">{counts.uncertain}</span> uncertain</span>
+                  <span><span className="font-bold text-success">{counts.verified}</span> verified</span>
+                  {counts.failed > 0 && <span><span className="font-bold">{counts.failed}</span> failed</span>}
+                  {!isRunning && progress.completed < progress.total && (
+                    <span className="italic">Stopped before completion</span>
+                  )}
+                </div>
+              </div>
+
+              <BatchResultsTable results={results} />
+
+              {!isRunning && results.length > 0 && (
+                <div className="flex flex-wrap gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-none"
+                    onClick={() => downloadFile(batchResultsToCsv(results), `${baseName}-results.csv`, 'text/csv')}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-none"
+                    onClick={() => downloadFile(batchResultsToJson(results), `${baseName}-results.json`)}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export JSON
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Batch;
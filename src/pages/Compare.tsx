@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { CompareSide, useComparison } from '@/hooks/useComparison';
+import { useScoringSettings } from '@/hooks/useScoringSettings';
+import { useLexicon } from '@/hooks/useLexicon';
+import { useReputationLists } from '@/hooks/useReputationLists';
+import { PageLayout } from '@/components/PageLayout';
+import { CompareSideInput } from '@/components/CompareSideInput';
+import { ComparisonReport } from '@/components/ComparisonReport';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Columns2, GitCompare, Loader2, AlertTriangle } from 'lucide-react';
+
+const isReady = (side: CompareSide) => side.kind === 'archive' ? Boolean(side.result) : side.text.trim().length > 0;
+
+const Compare = () => {
+  const { settings } = useScoringSettings();
+  const { lexicon } = useLexicon();
+  const { reputation } = useReputationLists();
+  const { left, right, comparison, recent, isComparing, error, compare } = useComparison({ scoring: settings, lexicon, reputation });
+  const [sideA, setSideA] = useState<CompareSide>({ kind: 'text', text: '' });
+  const [sideB, setSideB] = useState<CompareSide>({ kind: 'text', text: '' });
+
+  return (
+    <PageLayout department="Comparison Desk" icon={Columns2}>
+      <div className="space-y-8 max-w-5xl mx-auto">
+        <div className="grid md:grid-cols-2 gap-6">
+          <CompareSideInput title="Version A" value={sideA} recent={recent} disabled={isComparing} onChange={setSideA} />
+          <CompareSideInput title="Version B" value={sideB} recent={recent} disabled={isComparing} onChange={setSideB} />
+        </div>
+
+        <div className="text-center">
+          <Button
+            onClick={() => compare(sideA, sideB)}
+            disabled={isComparing || !isReady(sideA) || !isReady(sideB)}
+            className="rounded-none font-headline uppercase tracking-wider px-8"
+          >
+            {isComparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitCompare className="mr-2 h-4 w-4" />}
+            Compare Versions
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="border-2 rounded-none">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="font-body">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {left && right && comparison && !isComparing && (
+          <ComparisonReport left={left} right={right} comparison={comparison} />
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { AnalysisResult } from '@/hooks/useFakeNewsDetector';
+import { getArchiveEntry } from '@/lib/archive';
+import { decodePermalinkFragment } from '@/lib/permalink';
+import { PageLayout } from '@/components/PageLayout';
+import { VerdictDisplay } from '@/components/VerdictDisplay';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileSearch, AlertTriangle, Link2, Archive } from 'lucide-react';
+
+const Report = () => {
+  const { id = '' } = useParams();
+  const { hash } = useLocation();
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [source, setSource] = useState<'link' | 'archive' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        // A fragment carries the whole report; without one, fall back to this browser's archive
+        const loaded = hash.length > 1 ? await decodePermalinkFragment(hash) : await getArchiveEntry(id);
+        if (!loaded) {
+          throw new Error('This report is not in your archive. Ask for a share link that includes the full report.');
+        }
+        if (loaded.id !== id) {
+          throw new Error('This report link does not match the report it contains');
+        }
+        if (!cancelled) {
+          setResult(loaded);
+          setSource(hash.length > 1 ? 'link' : 'archive');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResult(null);
+          setError(err instanceof Error ? err.message : 'Could not open this report');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, hash]);
+
+  return (
+    <PageLayout department="Verification Report" icon={FileSearch}>
+      <div className="max-w-3xl mx-auto space-y-6">
+        {isLoading && (
+          <p className="text-center text-muted-foreground font-body italic">Retrieving the report...</p>
+        )}
+
+        {error && (
+          <Alert variant="destructive" className="border-2 rounded-none">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="font-body">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <p className="text-xs text-muted-foreground font-body flex items-center justify-center gap-2">
+              {source === 'link' ? <Link2 className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+              {source === 'link'
+                ? 'Shared report, shown as originally published. The analysis was not re-run.'
+                : 'Loaded from your archive.'}
+            </p>
+            <VerdictDisplay result={result} />
+          </>
+        )}
+
+        {!isLoading && (
+          <div className="text-center">
+            <Button asChild variant="outline" className="rounded-none border-2 border-foreground font-headline uppercase tracking-wider">
+              <Link to="/">Verify Another Story</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Report;
@@ -0,0 +1,82 @@
+/**
+ * Article Fetcher Service
+ * Downloads a web page through a configurable proxy and extracts the article.
+ * Set VITE_ARTICLE_PROXY_URL to a local stand-in during development.
+ */
+
+import { extractArticle, ExtractedArticle } from '@/lib/articleExtractor';
+import { buildEndpointUrl, readEnv } from '@/lib/endpoints';
+
+const getProxyUrl = () => readEnv('VITE_ARTICLE_PROXY_URL');
+
+/**
+ * Request URL for a page: through the proxy when one is configured
+ */
+function buildFetchUrl(target: string): string {
+  const proxy = getProxyUrl();
+  return proxy ? buildEndpointUrl(proxy, 'url', target) : target;
+}
+
+/**
+ * Validate and normalize a user-supplied article URL
+ * @throws Error when the input is not an http(s) URL
+ */
+export function normalizeArticleUrl(input: string): string {
+  const trimmed = input.trim();
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withProtocol);
+  } catch {
+    throw new Error('Please enter a valid article URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https links can be fetched');
+  }
+  url.hash = '';
+  return url.toString();
+}
+
+function readFinalUrl(header: string | null): string | undefined {
+  if (!header) return undefined;
+  try {
+    return normalizeArticleUrl(header);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch a page and extract its headline, byline, publish date and body
+ */
+export async function fetchArticle(input: string, signal?: AbortSignal): Promise<ExtractedArticle> {
+  const url = normalizeArticleUrl(input);
+
+  let response: Response;
+  try {
+    response = await fetch(buildFetchUrl(url), { signal, headers: { Accept: 'text/html' } });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new Error(
+      getProxyUrl()
+        ? 'Could not reach the article proxy'
+        : 'Could not fetch the page directly; configure VITE_ARTICLE_PROXY_URL'
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(`Fetching the article failed: ${response.status}`);
+  }
+
+  const html = await response.text();
+  // Proxies can report where redirects ended up
+  const finalUrl = readFinalUrl(response.headers.get('x-final-url')) ?? url;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const article = extractArticle(doc, finalUrl);
+
+  if (article.text.length < 50) {
+    throw new Error('No article text could be extracted from this page');
+  }
+
+  return article;
+}
@@ -0,0 +1,117 @@
+/**
+ * Local Claim Corpus
+ * Imported ClaimReview datasets kept in IndexedDB and matched offline, so
+ * fact-checking keeps working without an API key
+ */
+
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { FactCheckProvider } from '@/services/factCheckProviders';
+import { parseClaimReviewDataset } from '@/lib/claimReview';
+import { buildClaimIndex, ClaimIndex, searchClaimIndex } from '@/lib/claimIndex';
+import { createDatabaseOpener, requestToPromise, transactionDone } from '@/lib/indexedDb';
+
+const DB_NAME = 'veritasClaimCorpus';
+const DB_VERSION = 1;
+const STORE = 'claims';
+// Read synchronously to decide availability before the database is opened
+const SIZE_KEY = 'claimCorpusSize';
+
+interface CorpusRecord {
+  key: string;
+  claim: FactCheckClaim;
+  source: string; // Name of the imported file
+  importedAt: number;
+}
+
+export interface CorpusStats {
+  count: number;
+  sources: { name: string; count: number }[];
+}
+
+export interface CorpusImportResult {
+  imported: number;
+  total: number;
+}
+
+let indexPromise: Promise<ClaimIndex> | null = null;
+
+const getDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  if (oldVersion < 1) db.createObjectStore(STORE, { keyPath: 'key' });
+});
+
+function recordKey(claim: FactCheckClaim): string {
+  return claim.url || `${claim.publisher}|${claim.text}`.toLowerCase();
+}
+
+async function readAll(): Promise<CorpusRecord[]> {
+  const db = await getDatabase();
+  return requestToPromise(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<CorpusRecord[]>);
+}
+
+async function updateSizeHint(db: IDBDatabase): Promise<number> {
+  const count = await requestToPromise(db.transaction(STORE).objectStore(STORE).count());
+  localStorage.setItem(SIZE_KEY, String(count));
+  return count;
+}
+
+function getIndex(): Promise<ClaimIndex> {
+  if (!indexPromise) {
+    indexPromise = readAll()
+      .then(records => buildClaimIndex(records.map(record => record.claim)))
+      .catch(error => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+/**
+ * Import a ClaimReview dataset; claims already in the corpus are replaced
+ * @throws Error when the file has no readable claims
+ */
+export async function importClaimCorpus(content: string, source: string): Promise<CorpusImportResult> {
+  const claims = parseClaimReviewDataset(content);
+  if (claims.length === 0) {
+    throw new Error('No ClaimReview entries found in this file');
+  }
+
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const importedAt = Date.now();
+  claims.forEach(claim => store.put({ key: recordKey(claim), claim, source, importedAt } satisfies CorpusRecord));
+  await transactionDone(transaction);
+
+  indexPromise = null;
+  return { imported: claims.length, total: await updateSizeHint(db) };
+}
+
+export async function clearClaimCorpus(): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).clear();
+  await transactionDone(transaction);
+  indexPromise = null;
+  localStorage.removeItem(SIZE_KEY);
+}
+
+export async function getClaimCorpusStats(): Promise<CorpusStats> {
+  const records = await readAll();
+  const bySource = new Map<string, number>();
+  records.forEach(record => bySource.set(record.source, (bySource.get(record.source) ?? 0) + 1));
+  return {
+    count: records.length,
+    sources: [...bySource].map(([name, count]) => ({ name, count })),
+  };
+}
+
+export const localClaimReviewProvider: FactCheckProvider = {
+  id: 'local',
+  label: 'Local ClaimReview corpus',
+  // Without browser storage (Node, workers) no corpus can have been imported
+  isAvailable: () => typeof localStorage !== 'undefined' && Number(localStorage.getItem(SIZE_KEY)) > 0,
+  search: async (query) => searchClaimIndex(await getIndex(), query),
+  // Matched offline and changes with every import
+  cacheable: false,
+};
@@ -1,11 +1,36 @@
 /**
- * Google Fact Check Tools API Service
- * Optional integration - gracefully degrades if no API key is configured
+ * Fact Check Service
+ * Extracts the check-worthy claims from the text, queries every available
+ * fact-check provider for each one and merges their results - gracefully
+ * degrades if no provider is configured
  */
 
+import { defaultFactCheckProviders, FactCheckProvider } from '@/services/factCheckProviders';
+import { ClaimSignal, extractClaims } from '@/lib/claimExtraction';
+import { TextSpan } from '@/lib/textSpans';
+import { readCache, writeCache } from '@/services/factCheckCache';
+
 export interface FactCheckResult {
   available: boolean;
+  claims: FactCheckClaim[]; // Merged across all checked claims
+  query?: string; // First text that was sent to the providers
+  checkedClaims?: CheckedClaim[];
+  providers?: ProviderStatus[];
+  error?: string;
+}
+
+/**
+ * A sentence of the submitted text and the fact-checks found for it
+ */
+export interface CheckedClaim extends TextSpan {
+  signals: ClaimSignal[];
   claims: FactCheckClaim[];
+}
+
+export interface ProviderStatus {
+  id: string;
+  label: string;
+  claims: number;
   error?: string;
 }
 
@@ -14,65 +39,26 @@ export interface FactCheckClaim {
   claimant?: string;
   claimDate?: string;
   rating: string;
-  ratingValue?: number; // Normalized 0-100, lower = more false
+  ratingValue?: number; // Normalized 0-100, higher = more false; undefined when the rating is unmapped
   url: string;
   publisher: string;
   reviewDate?: string;
+  providers?: string[]; // Labels of the providers that returned this claim
+  similarity?: number; // 0-1 text similarity, for claims matched locally
 }
 
-const API_BASE_URL = 'https://factchecktools.googleapis.com/v1alpha1/claims:search';
+interface QueryOutcome {
+  claims: FactCheckClaim[];
+  statuses: ProviderStatus[];
+}
 
-// Cache to avoid repeated API calls for same queries
-const cache = new Map<string, { result: FactCheckResult; timestamp: number }>();
-const CACHE_TTL = 1000 * 60 * 30; // 30 minutes
+const MAX_QUERY_LENGTH = 200;
 
 /**
- * Check if the Google Fact Check API is configured
+ * Check if at least one fact-check provider is configured
  */
-export function isFactCheckApiAvailable(): boolean {
-  const apiKey = import.meta.env.VITE_GOOGLE_FACTCHECK_API_KEY;
-  return Boolean(apiKey && apiKey.length > 0);
-}
-
-/**
- * Normalize various rating texts to a numeric value (0-100, lower = more false)
- */
-function normalizeRating(textualRating: string): number | undefined {
-  const rating = textualRating.toLowerCase();
-  
-  // True ratings
-  if (rating.includes('true') && !rating.includes('false') && !rating.includes('partly') && !rating.includes('mostly')) {
-    return 10;
-  }
-  if (rating.includes('mostly true') || rating.includes('largely true')) {
-    return 25;
-  }
-  
-  // Mixed ratings
-  if (rating.includes('half true') || rating.includes('mixture') || rating.includes('partly') || rating.includes('partially')) {
-    return 50;
-  }
-  
-  // False ratings
-  if (rating.includes('mostly false') || rating.includes('largely false')) {
-    return 75;
-  }
-  if (rating.includes('false') || rating.includes('fake') || rating.includes('pants on fire') || rating.includes('incorrect')) {
-    return 90;
-  }
-  
-  // Other indicators
-  if (rating.includes('misleading') || rating.includes('out of context')) {
-    return 70;
-  }
-  if (rating.includes('unproven') || rating.includes('unverified')) {
-    return 50;
-  }
-  if (rating.includes('satire')) {
-    return 85;
-  }
-
-  return undefined;
+export function isFactCheckApiAvailable(providers = defaultFactCheckProviders.list()): boolean {
+  return providers.some(provider => provider.isAvailable());
 }
 
 /**
@@ -82,90 +68,158 @@ function extractSearchQuery(text: string): string {
   // Try to get the first sentence
   const sentenceMatch = text.match(/^[^.!?]+[.!?]/);
   if (sentenceMatch && sentenceMatch[0].length >= 20) {
-    return sentenceMatch[0].slice(0, 200);
+    return sentenceMatch[0].slice(0, MAX_QUERY_LENGTH);
   }
   
   // Otherwise just take first 200 chars
-  return text.slice(0, 200);
+  return text.slice(0, MAX_QUERY_LENGTH);
 }
 
 /**
- * Query the Google Fact Check API for claims related to the text
+ * Key used to recognize the same fact-check across providers
  */
-export async function checkFactsWithGoogle(text: string): Promise<FactCheckResult> {
-  // Check if API is available
-  if (!isFactCheckApiAvailable()) {
-    return {
-      available: false,
-      claims: [],
-      error: 'Google Fact Check API key not configured'
-    };
+function claimKey(claim: FactCheckClaim): string {
+  if (claim.url) {
+    return claim.url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[/#?]+$/, '');
   }
+  return `${claim.publisher}|${claim.text}`.toLowerCase().replace(/\s+/g, ' ').trim();
+}
 
-  const query = extractSearchQuery(text);
-  const cacheKey = query.toLowerCase().trim();
-
-  // Check cache
-  const cached = cache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.result;
+/**
+ * Merge claim lists, combining duplicates and keeping the first list's
+ * details; provider attributions of duplicates are combined
+ */
+export function mergeClaims(lists: FactCheckClaim[][]): FactCheckClaim[] {
+  const merged = new Map<string, FactCheckClaim>();
+
+  for (const claims of lists) {
+    for (const claim of claims) {
+      const key = claimKey(claim);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...claim, providers: [...(claim.providers ?? [])] });
+        continue;
+      }
+      for (const provider of claim.providers ?? []) {
+        if (!existing.providers?.includes(provider)) {
+          existing.providers = [...(existing.providers ?? []), provider];
+        }
+      }
+      existing.claimant ??= claim.claimant;
+      existing.claimDate ??= claim.claimDate;
+      existing.reviewDate ??= claim.reviewDate;
+      existing.ratingValue ??= claim.ratingValue;
+      existing.similarity ??= claim.similarity;
+    }
   }
 
-  const apiKey = import.meta.env.VITE_GOOGLE_FACTCHECK_API_KEY;
+  return [...merged.values()];
+}
+
+/**
+ * Search one provider, reusing its cached answer for the query; failures
+ * are not cached so the next check retries them
+ */
+async function searchProvider(provider: FactCheckProvider, query: string, signal?: AbortSignal): Promise<FactCheckClaim[]> {
+  if (provider.cacheable === false) return provider.search(query, signal);
 
-  try {
-    const url = new URL(API_BASE_URL);
-    url.searchParams.set('query', query);
-    url.searchParams.set('key', apiKey);
-    url.searchParams.set('languageCode', 'en');
-    url.searchParams.set('pageSize', '5');
+  const cacheKey = `${provider.id}:${query.toLowerCase().trim()}`;
+  // A broken cache only costs an API call
+  const cached = await readCache<FactCheckClaim[]>(cacheKey).catch(() => undefined);
+  if (cached) return cached;
 
-    const response = await fetch(url.toString());
+  const claims = await provider.search(query, signal);
+  await writeCache(cacheKey, claims).catch(error => console.error('Could not cache fact checks:', error));
+  return claims;
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `API error: ${response.status}`);
+/**
+ * Query the providers for one claim
+ */
+async function searchProviders(query: string, active: FactCheckProvider[], signal?: AbortSignal): Promise<QueryOutcome> {
+  const settled = await Promise.allSettled(active.map(provider => searchProvider(provider, query, signal)));
+  // A cancelled check has no result to report
+  signal?.throwIfAborted();
+  const statuses: ProviderStatus[] = [];
+  const lists: FactCheckClaim[][] = [];
+
+  settled.forEach((outcome, index) => {
+    const provider = active[index];
+    if (outcome.status === 'fulfilled') {
+      lists.push(outcome.value.map(claim => ({ ...claim, providers: [provider.label] })));
+      statuses.push({ id: provider.id, label: provider.label, claims: outcome.value.length });
+    } else {
+      console.error(`Fact check provider "${provider.id}" failed:`, outcome.reason);
+      const message = outcome.reason instanceof Error ? outcome.reason.message : 'Failed to fetch fact checks';
+      statuses.push({ id: provider.id, label: provider.label, claims: 0, error: message });
     }
+  });
 
-    const data = await response.json();
-
-    const claims: FactCheckClaim[] = (data.claims || []).map((claim: any) => {
-      const review = claim.claimReview?.[0];
-      const textualRating = review?.textualRating || 'Unknown';
-      
-      return {
-        text: claim.text || '',
-        claimant: claim.claimant,
-        claimDate: claim.claimDate,
-        rating: textualRating,
-        ratingValue: normalizeRating(textualRating),
-        url: review?.url || '',
-        publisher: review?.publisher?.name || 'Unknown',
-        reviewDate: review?.reviewDate
-      };
-    });
-
-    const result: FactCheckResult = {
-      available: true,
-      claims
-    };
+  return { claims: mergeClaims(lists), statuses };
+}
 
-    // Cache the result
-    cache.set(cacheKey, { result, timestamp: Date.now() });
+/**
+ * Sentences worth checking; falls back to the opening passage when none
+ * stands out
+ */
+function claimsToCheck(text: string): Omit<CheckedClaim, 'claims'>[] {
+  const extracted = extractClaims(text);
+  if (extracted.length > 0) {
+    return extracted.map(({ start, end, text: sentence, signals }) => ({ start, end, text: sentence, signals }));
+  }
 
-    return result;
+  const query = extractSearchQuery(text);
+  const start = Math.max(0, text.indexOf(query));
+  return [{ start, end: start + query.length, text: query, signals: [] }];
+}
 
-  } catch (error) {
-    console.error('Fact Check API error:', error);
-    
-    const result: FactCheckResult = {
-      available: true,
+/**
+ * Query every available provider for each check-worthy claim in the text
+ * @throws DOMException AbortError when the signal aborts
+ */
+export async function checkFacts(
+  text: string,
+  providers: FactCheckProvider[] = defaultFactCheckProviders.list(),
+  signal?: AbortSignal
+): Promise<FactCheckResult> {
+  const active = providers.filter(provider => provider.isAvailable());
+  if (active.length === 0) {
+    return {
+      available: false,
       claims: [],
-      error: error instanceof Error ? error.message : 'Failed to fetch fact checks'
+      error: 'No fact-check provider configured'
     };
-
-    return result;
   }
+
+  const targets = claimsToCheck(text);
+  const outcomes = await Promise.all(
+    targets.map(target => searchProviders(target.text.slice(0, MAX_QUERY_LENGTH), active, signal))
+  );
+
+  // One status per provider: claims summed, first error kept
+  const statuses = active.map((provider): ProviderStatus => {
+    const own = outcomes.map(outcome => outcome.statuses.find(status => status.id === provider.id)!);
+    const error = own.find(status => status.error)?.error;
+    return {
+      id: provider.id,
+      label: provider.label,
+      claims: own.reduce((sum, status) => sum + status.claims, 0),
+      ...(error && { error }),
+    };
+  });
+
+  // Only an error when no provider answered for any claim
+  const answered = outcomes.some(outcome => outcome.statuses.some(status => !status.error));
+  const failed = statuses.filter(status => status.error);
+
+  return {
+    available: true,
+    claims: mergeClaims(outcomes.map(outcome => outcome.claims)),
+    query: targets[0].text.slice(0, MAX_QUERY_LENGTH),
+    checkedClaims: targets.map((target, index) => ({ ...target, claims: outcomes[index].claims })),
+    providers: statuses,
+    ...(!answered && { error: failed.map(f => `${f.label}: ${f.error}`).join('; ') }),
+  };
 }
 
 /**
@@ -0,0 +1,155 @@
+/**
+ * Fact-Check Cache
+ * Provider answers kept in IndexedDB so repeated checks survive reloads and
+ * spare API quota; entries expire after a TTL and the least recently used
+ * are evicted beyond the size limit
+ */
+
+import { createDatabaseOpener, requestToPromise, transactionDone } from '@/lib/indexedDb';
+
+const DB_NAME = 'veritasFactCheckCache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+const SETTINGS_KEY = 'factCheckCacheSettings';
+const STATS_KEY = 'factCheckCacheStats';
+
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  storedAt: number;
+  lastAccess: number;
+}
+
+export interface FactCheckCacheSettings {
+  ttlMinutes: number;
+  maxEntries: number;
+}
+
+export interface FactCheckCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: FactCheckCacheSettings = {
+  ttlMinutes: 30,
+  maxEntries: 500,
+};
+
+const getDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { keyPath: 'key' });
+    store.createIndex('lastAccess', 'lastAccess');
+  }
+});
+
+export function loadCacheSettings(): FactCheckCacheSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CACHE_SETTINGS;
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+}
+
+/**
+ * Save the settings and evict entries beyond a lowered size limit
+ */
+export async function saveCacheSettings(settings: FactCheckCacheSettings): Promise<FactCheckCacheSettings> {
+  const sanitized = {
+    ttlMinutes: Math.max(1, Math.round(settings.ttlMinutes)),
+    maxEntries: Math.max(1, Math.round(settings.maxEntries)),
+  };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(sanitized));
+  await evictLeastRecent(await getDatabase(), sanitized.maxEntries);
+  return sanitized;
+}
+
+function loadCounters(): Omit<FactCheckCacheStats, 'entries'> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATS_KEY) ?? '{}');
+    return { hits: Number(saved.hits) || 0, misses: Number(saved.misses) || 0 };
+  } catch {
+    return { hits: 0, misses: 0 };
+  }
+}
+
+function count(outcome: 'hits' | 'misses') {
+  const counters = loadCounters();
+  counters[outcome]++;
+  localStorage.setItem(STATS_KEY, JSON.stringify(counters));
+}
+
+/**
+ * Delete least recently used entries until at most `maxEntries` remain
+ */
+async function evictLeastRecent(db: IDBDatabase, maxEntries: number): Promise<void> {
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  let excess = (await requestToPromise(store.count())) - maxEntries;
+  if (excess <= 0) return;
+
+  const request = store.index('lastAccess').openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor || excess <= 0) return;
+    cursor.delete();
+    excess--;
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+}
+
+/**
+ * Cached value for the key, or undefined on a miss; expired entries are
+ * dropped and hits refresh the entry's recency
+ */
+export async function readCache<T>(key: string): Promise<T | undefined> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const record = await requestToPromise(store.get(key) as IDBRequest<CacheRecord | undefined>);
+  const now = Date.now();
+
+  if (!record) {
+    count('misses');
+    return undefined;
+  }
+  if (now - record.storedAt > loadCacheSettings().ttlMinutes * 60 * 1000) {
+    store.delete(key);
+    await transactionDone(transaction);
+    count('misses');
+    return undefined;
+  }
+
+  store.put({ ...record, lastAccess: now } satisfies CacheRecord);
+  await transactionDone(transaction);
+  count('hits');
+  return record.value as T;
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const now = Date.now();
+  transaction.objectStore(STORE).put({ key, value, storedAt: now, lastAccess: now } satisfies CacheRecord);
+  await transactionDone(transaction);
+  await evictLeastRecent(db, loadCacheSettings().maxEntries);
+}
+
+export async function getCacheStats(): Promise<FactCheckCacheStats> {
+  const db = await getDatabase();
+  const entries = await requestToPromise(db.transaction(STORE).objectStore(STORE).count());
+  return { entries, ...loadCounters() };
+}
+
+/**
+ * Remove every cached answer and reset the hit/miss counters
+ */
+export async function purgeCache(): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).clear();
+  await transactionDone(transaction);
+  localStorage.removeItem(STATS_KEY);
+}
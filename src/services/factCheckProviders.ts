@@ -0,0 +1,156 @@
+/**
+ * Fact-Check Providers
+ * Common interface for fact-check sources, a registry to compose them, and
+ * the built-in Google and generic HTTP (self-hosted database) providers;
+ * the offline corpus provider lives in claimCorpus
+ */
+
+import { FactCheckClaim } from '@/services/factCheckApi';
+import { normalizeRating } from '@/lib/factCheckRatings';
+import { ClaimReview, claimFromClaimReview } from '@/lib/claimReview';
+import { localClaimReviewProvider } from '@/services/claimCorpus';
+import { createRateLimiter, fetchWithRetry } from '@/lib/resilientFetch';
+import { buildEndpointUrl, readEnv } from '@/lib/endpoints';
+import { createRegistry, Registry } from '@/lib/registry';
+
+export interface FactCheckProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  // Resolves with the claims found for the query; rejects when the source
+  // fails, or with an AbortError when the signal aborts
+  search: (query: string, signal?: AbortSignal) => Promise<FactCheckClaim[]>;
+  // Answers are kept in the persistent cache unless this is false
+  cacheable?: boolean;
+}
+
+export type FactCheckProviderRegistry = Registry<FactCheckProvider>;
+
+export function createFactCheckProviderRegistry(initial: FactCheckProvider[] = []): FactCheckProviderRegistry {
+  return createRegistry(initial);
+}
+
+// Claim shape of the Google claims:search API, also accepted from HTTP providers
+interface GoogleClaim {
+  text?: string;
+  claimant?: string;
+  claimDate?: string;
+  claimReview?: {
+    publisher?: { name?: string; site?: string };
+    url?: string;
+    title?: string;
+    reviewDate?: string;
+    textualRating?: string;
+  }[];
+}
+
+function fromGoogleClaim(claim: GoogleClaim): FactCheckClaim {
+  const review = claim.claimReview?.[0];
+  const textualRating = review?.textualRating || 'Unknown';
+  return {
+    text: claim.text || '',
+    claimant: claim.claimant,
+    claimDate: claim.claimDate,
+    rating: textualRating,
+    ratingValue: normalizeRating(textualRating),
+    url: review?.url || '',
+    publisher: review?.publisher?.name || 'Unknown',
+    reviewDate: review?.reviewDate,
+  };
+}
+
+/**
+ * Read claims from either a Google-style `{ claims: [...] }` body or a list
+ * of schema.org ClaimReview objects (bare array or `{ items: [...] }`)
+ */
+export function parseFactCheckResponse(data: unknown): FactCheckClaim[] {
+  if (!data || typeof data !== 'object') return [];
+  const body = data as { claims?: GoogleClaim[]; items?: ClaimReview[] };
+
+  if (Array.isArray(body.claims)) {
+    return body.claims.map(fromGoogleClaim);
+  }
+  const reviews = Array.isArray(data) ? data as ClaimReview[] : body.items;
+  return Array.isArray(reviews) ? reviews.map(claimFromClaimReview) : [];
+}
+
+async function readError(response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error?.message || `API error: ${response.status}`);
+}
+
+const GOOGLE_API_URL = 'https://factchecktools.googleapis.com/v1alpha1/claims:search';
+// Stays well inside the API's per-minute quota when many claims are checked at once
+const googleLimiter = createRateLimiter({ maxRequests: 30, intervalMs: 60 * 1000 });
+
+const getGoogleApiKey = () => readEnv('VITE_GOOGLE_FACTCHECK_API_KEY');
+
+export const googleFactCheckProvider: FactCheckProvider = {
+  id: 'google',
+  label: 'Google Fact Check Tools',
+  isAvailable: () => Boolean(getGoogleApiKey()),
+  search: async (query, signal) => {
+    const url = new URL(GOOGLE_API_URL);
+    url.searchParams.set('query', query);
+    url.searchParams.set('key', getGoogleApiKey() ?? '');
+    url.searchParams.set('languageCode', 'en');
+    url.searchParams.set('pageSize', '5');
+
+    const response = await fetchWithRetry(url.toString(), { signal }, { limiter: googleLimiter });
+    if (!response.ok) throw await readError(response);
+    return parseFactCheckResponse(await response.json());
+  },
+};
+
+export interface HttpProviderConfig {
+  id: string;
+  label: string;
+  url: string; // {query} is replaced with the encoded query, otherwise sent as `query`
+  rateLimit?: { maxRequests: number; intervalMs: number };
+}
+
+/**
+ * Provider for a self-hosted fact-check database or any API returning
+ * Google-style claims or ClaimReview JSON
+ */
+export function createHttpFactCheckProvider(config: HttpProviderConfig): FactCheckProvider {
+  const limiter = config.rateLimit && createRateLimiter(config.rateLimit);
+  return {
+    id: config.id,
+    label: config.label,
+    isAvailable: () => true,
+    search: async (query, signal) => {
+      const url = buildEndpointUrl(config.url, 'query', query);
+      const response = await fetchWithRetry(url, { signal, headers: { Accept: 'application/json' } }, { limiter });
+      if (!response.ok) throw await readError(response);
+      return parseFactCheckResponse(await response.json());
+    },
+  };
+}
+
+/**
+ * HTTP providers listed in VITE_FACTCHECK_PROVIDERS (JSON array of configs)
+ */
+function configuredHttpProviders(): FactCheckProvider[] {
+  const raw = readEnv('VITE_FACTCHECK_PROVIDERS');
+  if (!raw) return [];
+
+  try {
+    const configs: unknown = JSON.parse(raw);
+    if (!Array.isArray(configs)) throw new Error('expected an array');
+    return configs
+      .filter((c): c is HttpProviderConfig =>
+        typeof c?.id === 'string' && typeof c?.label === 'string' && typeof c?.url === 'string'
+      )
+      .map(createHttpFactCheckProvider);
+  } catch (error) {
+    console.error('Ignoring invalid VITE_FACTCHECK_PROVIDERS:', error);
+    return [];
+  }
+}
+
+export const defaultFactCheckProviders = createFactCheckProviderRegistry([
+  googleFactCheckProvider,
+  ...configuredHttpProviders(),
+  localClaimReviewProvider,
+]);
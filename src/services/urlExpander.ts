@@ -0,0 +1,73 @@
+/**
+ * URL Expander Service
+ * Follows shortened links through a configurable resolver endpoint so the
+ * destination, not the shortener, is scored. Set VITE_URL_RESOLVER_URL to a
+ * local stand-in during development; without it links stay unexpanded.
+ */
+
+import { buildEndpointUrl, readEnv } from '@/lib/endpoints';
+import { fetchWithRetry, isAbortError } from '@/lib/resilientFetch';
+import { LinkExpansions } from '@/lib/urlShorteners';
+
+// Redirects do not change for a given short link
+const cache = new Map<string, string[]>();
+const MAX_LINKS = 10;
+
+const getResolverUrl = () => readEnv('VITE_URL_RESOLVER_URL');
+
+/**
+ * Read a resolver response: `{ "chain": [...] }` listing every hop, or
+ * `{ "finalUrl": "..." }` with the destination only
+ */
+export function parseResolverResponse(link: string, data: unknown): string[] | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const body = data as { chain?: unknown; finalUrl?: unknown };
+
+  const hops = Array.isArray(body.chain) ? body.chain.filter((hop): hop is string => typeof hop === 'string') : [];
+  if (typeof body.finalUrl === 'string' && hops[hops.length - 1] !== body.finalUrl) {
+    hops.push(body.finalUrl);
+  }
+  if (hops.length === 0) return undefined;
+  return hops[0] === link ? hops : [link, ...hops];
+}
+
+async function expandLink(resolver: string, link: string, signal?: AbortSignal): Promise<string[] | undefined> {
+  const cached = cache.get(link);
+  if (cached) return cached;
+
+  const response = await fetchWithRetry(
+    buildEndpointUrl(resolver, 'url', link),
+    { signal, headers: { Accept: 'application/json' } },
+    { timeoutMs: 5000, retries: 1 }
+  );
+  if (!response.ok) throw new Error(`Resolver error: ${response.status}`);
+
+  const chain = parseResolverResponse(link, await response.json());
+  if (chain) cache.set(link, chain);
+  return chain;
+}
+
+/**
+ * Expand short links through the resolver; links that fail to resolve are
+ * left out so they are scored as unexpanded shorteners
+ * @throws DOMException AbortError when the signal aborts
+ */
+export async function expandShortLinks(links: string[], signal?: AbortSignal): Promise<LinkExpansions> {
+  const resolver = getResolverUrl();
+  const expansions = new Map<string, string[]>();
+  if (!resolver) return expansions;
+
+  const unique = [...new Set(links)].slice(0, MAX_LINKS);
+  const settled = await Promise.allSettled(unique.map(link => expandLink(resolver, link, signal)));
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      if (outcome.value) expansions.set(unique[index], outcome.value);
+    } else if (!isAbortError(outcome.reason)) {
+      console.error(`Could not expand ${unique[index]}:`, outcome.reason);
+    }
+  });
+  signal?.throwIfAborted();
+
+  return expansions;
+}